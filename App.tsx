@@ -1,8 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { EspressoShot, DialInAdvice, CoffeeSearchRecommendation } from './types.ts';
-import { getBaristaAdvice, searchCoffeeParameters } from './services/geminiService.ts';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { EspressoShot, DialInAdvice, DialInAdjustment, CoffeeSearchRecommendation, BeanBag, EquipmentProfile, BaristaProfile, Recipe, AiSettings } from './types.ts';
+import { ADVICE_HISTORY_LIMIT, getBaristaAdvice, searchCoffeeParameters } from './services/geminiService.ts';
+import { consumeDose, daysOffRoast, formatBagLabel, isLowStock } from './services/beanService.ts';
+import { BUILT_IN_PROFILES, DEFAULT_EQUIPMENT_ID, formatTempSetting, getDefaultTempSetting, getEquipment, getTempOptions, isValidTempSetting } from './services/equipmentService.ts';
+import { readCollection } from './services/storageService.ts';
+import { getActiveProvider, loadAiSettings, needsKeySetup, PROVIDER_LABEL, saveAiSettings } from './services/aiProvider.ts';
+import { createProfile, getActiveProfileId, loadProfiles, saveProfiles, setActiveProfileId } from './services/profileService.ts';
+import { deleteProfileShots, loadProfileShots, loadTrash, removeFromTrash, syncProfileShots, trashShot, TrashedShot } from './services/shotRepository.ts';
+import { mergeShots } from './services/exportService.ts';
+import { applyGrindDelta, getBeanHistory, groupSessions, isSameBean, resolveSessionId, toggleLockedIn } from './services/sessionService.ts';
 import { ShotCard } from './components/ShotCard.tsx';
+import { BeanInventory } from './components/BeanInventory.tsx';
+import { RecipeLibrary } from './components/RecipeLibrary.tsx';
+import { SessionPanel } from './components/SessionPanel.tsx';
+import { EquipmentSettings } from './components/EquipmentSettings.tsx';
+import { ProfileSwitcher } from './components/ProfileSwitcher.tsx';
+import { TeamComparison } from './components/TeamComparison.tsx';
+import { CoachSettings } from './components/CoachSettings.tsx';
+import { ApiKeySetup } from './components/ApiKeySetup.tsx';
+import { JournalTransfer } from './components/JournalTransfer.tsx';
+import { ShotDetail } from './components/ShotDetail.tsx';
+import { TrashPanel } from './components/TrashPanel.tsx';
+import { UndoToast } from './components/UndoToast.tsx';
+import { JournalFilters } from './components/JournalFilters.tsx';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard.tsx';
+import { applyFilter, isFilterActive, JournalFilter, parseFilter, serializeFilter } from './services/journalFilterService.ts';
 import { ShotTimer } from './components/ShotTimer.tsx';
+import { ScaleConnection } from './services/scaleService.ts';
+import { targetsFromRecipe } from './services/guidanceService.ts';
+import { cacheSearch, formatCacheAge, getCachedSearch } from './services/searchCacheService.ts';
+import { formatSearchValue, getSearchError } from './services/searchResponseService.ts';
+import { DEFAULT_RECIPE, recipeFromSearch, recipeFromShot, recipeTargets, recipeTargetTime, sortRecipesForBean } from './services/recipeService.ts';
+import { EXTRACTION_LABEL, getExtractionReading, STRENGTH_LABEL } from './services/extractionService.ts';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
 // Erweiterung des Window-Interfaces für AI Studio Funktionen
@@ -16,8 +45,39 @@ declare global {
   }
 }
 
+// Anzahl der ShotCards, die das Journal pro "Mehr laden" zusätzlich rendert
+const JOURNAL_PAGE_SIZE = 20;
+
+// So lange bleibt der Rückgängig-Hinweis nach dem Löschen sichtbar
+const UNDO_TIMEOUT_MS = 6000;
+
+const DEFAULT_FLAVOR: EspressoShot['flavorProfile'] = { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall: 3 };
+
 const App: React.FC = () => {
   const [shots, setShots] = useState<EspressoShot[]>([]);
+  // Synchron laden: ein Lade-Effekt käme erst nach dem ersten Speichern und würde die Liste leeren
+  const [bags, setBags] = useState<BeanBag[]>(() => readCollection<BeanBag>('barista_beans_v1') ?? []);
+  const [recipes, setRecipes] = useState<Recipe[]>(() => readCollection<Recipe>('barista_recipes_v1') ?? []);
+  const [customProfiles, setCustomProfiles] = useState<EquipmentProfile[]>(() => readCollection<EquipmentProfile>('barista_equipment_v1') ?? []);
+  const [showEquipment, setShowEquipment] = useState(false);
+  const [baristas, setBaristas] = useState<BaristaProfile[]>(loadProfiles);
+  const [activeBaristaId, setActiveBaristaId] = useState(getActiveProfileId);
+  const [showTeam, setShowTeam] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [showCoachSettings, setShowCoachSettings] = useState(false);
+  // Ohne Gemini-Key direkt mit dem Setup starten (kein Flash der Hauptansicht)
+  const [showKeyInput, setShowKeyInput] = useState(() => needsKeySetup(getActiveProvider()));
+  const [journalLimit, setJournalLimit] = useState(JOURNAL_PAGE_SIZE);
+  const [selectedShotId, setSelectedShotId] = useState<string | null>(null);
+  const [scale, setScale] = useState<ScaleConnection | null>(null);
+  const [trash, setTrash] = useState<TrashedShot[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [undoShotId, setUndoShotId] = useState<string | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+  const [journalFilter, setJournalFilter] = useState<JournalFilter>(() => parseFilter(window.location.search));
+  // Zuletzt geladener bzw. gespeicherter Journal-Stand – Basis für die Diff-Synchronisation
+  const persistedRef = useRef<{ profileId: string | null; shots: EspressoShot[] }>({ profileId: null, shots: [] });
   const [loadingAdvice, setLoadingAdvice] = useState(false);
   const [advice, setAdvice] = useState<DialInAdvice | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -27,37 +87,219 @@ const App: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [searchRecommendation, setSearchRecommendation] = useState<CoffeeSearchRecommendation | null>(null);
+  const [savedSearchRecipeId, setSavedSearchRecipeId] = useState<string | null>(null);
+  const [searchCachedAt, setSearchCachedAt] = useState<number | null>(null);
 
   const [form, setForm] = useState<Partial<EspressoShot>>({
     beanName: '',
-    dose: 18,
-    yield: 36,
-    time: 25,
-    maraXTempSetting: '0',
+    roastDate: '',
+    bagId: undefined,
+    dose: DEFAULT_RECIPE.dose,
+    yield: DEFAULT_RECIPE.yield,
+    time: recipeTargetTime(DEFAULT_RECIPE),
+    tempSetting: '0',
     grindSetting: '',
     notes: '',
-    flavorProfile: { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall: 3 }
+    flavorProfile: { ...DEFAULT_FLAVOR }
   });
 
+  const activeBarista = baristas.find(b => b.id === activeBaristaId) || baristas[0];
+  const equipmentId = activeBarista.equipmentId;
+
+  useEffect(() => {
+    saveProfiles(baristas);
+  }, [baristas]);
+
+  // Beim Wechsel des Baristas dessen eigenes Journal laden
   useEffect(() => {
-    const saved = localStorage.getItem('barista_shots_v3');
-    if (saved) setShots(JSON.parse(saved));
-  }, []);
+    const profileId = activeBarista.id;
+    let cancelled = false;
+    setActiveProfileId(profileId);
+    persistedRef.current = { profileId: null, shots: [] };
+    setShots([]);
+    setJournalLimit(JOURNAL_PAGE_SIZE);
+    setSelectedShotId(null);
+    setTrash([]);
+    setUndoShotId(null);
+    loadTrash(profileId)
+      .then(entries => { if (!cancelled) setTrash(entries); })
+      .catch(console.error);
+    loadProfileShots(profileId)
+      .then(({ shots: loaded, dropped }) => {
+        if (cancelled) return;
+        persistedRef.current = { profileId, shots: loaded };
+        setShots(loaded);
+        if (dropped > 0) setError(`${dropped} beschädigte Journal-Einträge wurden übersprungen.`);
+      })
+      .catch(err => {
+        console.error(err);
+        setError("Journal konnte nicht geladen werden.");
+      });
+    return () => { cancelled = true; };
+  }, [activeBarista.id]);
 
+  // Nur Änderungen gegenüber dem zuletzt persistierten Stand schreiben
   useEffect(() => {
-    localStorage.setItem('barista_shots_v3', JSON.stringify(shots));
+    const persisted = persistedRef.current;
+    if (persisted.profileId !== activeBarista.id || persisted.shots === shots) return;
+    persistedRef.current = { profileId: activeBarista.id, shots };
+    syncProfileShots(activeBarista.id, persisted.shots, shots).catch(err => {
+      console.error(err);
+      setError("Speichern fehlgeschlagen. Der Shot ist nur in dieser Sitzung vorhanden.");
+    });
   }, [shots]);
 
-  const handleStartSearch = async (e: React.FormEvent) => {
+  // Filter in der URL spiegeln, damit Ansichten als Lesezeichen taugen
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(null, '', `${pathname}${serializeFilter(journalFilter, search)}${hash}`);
+    setJournalLimit(JOURNAL_PAGE_SIZE);
+  }, [journalFilter]);
+
+  useEffect(() => {
+    saveAiSettings(aiSettings);
+  }, [aiSettings]);
+
+  // In AI Studio wird der Key über process.env injiziert, dann braucht es kein Setup
+  useEffect(() => {
+    if (!showKeyInput || !window.aistudio) return;
+    window.aistudio.hasSelectedApiKey().then(hasKey => {
+      if (hasKey) setShowKeyInput(false);
+    }).catch(console.error);
+  }, [showKeyInput]);
+
+  useEffect(() => {
+    localStorage.setItem('barista_beans_v1', JSON.stringify(bags));
+  }, [bags]);
+
+  useEffect(() => {
+    localStorage.setItem('barista_recipes_v1', JSON.stringify(recipes));
+  }, [recipes]);
+
+  useEffect(() => {
+    localStorage.setItem('barista_equipment_v1', JSON.stringify(customProfiles));
+  }, [customProfiles]);
+
+  const equipmentProfiles = [...BUILT_IN_PROFILES, ...customProfiles];
+  const equipment = getEquipment(equipmentProfiles, equipmentId);
+  const tempOptions = getTempOptions(equipment.machine);
+  const selectedShot = shots.find(s => s.id === selectedShotId);
+  const journalShots = applyFilter(shots, journalFilter);
+  const formReading = getExtractionReading({ dose: form.dose || 0, yield: form.yield || 0, tds: form.tds });
+  const activeRecipe = recipes.find(r => r.id === form.recipeId);
+  // Liest und parst den ganzen Cache, daher nicht bei jedem Tastendruck im Formular
+  const cachedSearch = useMemo(
+    () => isAdding && searchStep && !searchRecommendation ? getCachedSearch(searchQuery, equipment.id) : null,
+    [isAdding, searchStep, searchRecommendation, searchQuery, equipment.id]
+  );
+  const searchRecipes = searchQuery.trim()
+    ? sortRecipesForBean(recipes.filter(r => r.beanName.toLowerCase().includes(searchQuery.trim().toLowerCase())), searchQuery)
+    : [];
+  // Vorinfusion des letzten gemessenen Shots derselben Bohne als Richtwert für den Timer
+  const lastTiming = shots.find(s => s.timing && isSameBean(s, { bagId: form.bagId, beanName: form.beanName || '' }))?.timing;
+
+  const openShotDetail = (id: string) => {
+    setSelectedShotId(id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Löschen verschiebt in den Papierkorb und bietet kurz ein Rückgängig an
+  const deleteShot = (id: string) => {
+    const shot = shots.find(s => s.id === id);
+    if (!shot) return;
+    const entry = { shot, deletedAt: Date.now() };
+    setShots(shots.filter(s => s.id !== id));
+    setTrash(prev => [entry, ...prev]);
+    trashShot(activeBarista.id, entry).catch(console.error);
+    setUndoShotId(id);
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = window.setTimeout(() => setUndoShotId(null), UNDO_TIMEOUT_MS);
+  };
+
+  const restoreShot = (id: string) => {
+    const entry = trash.find(e => e.shot.id === id);
+    if (!entry) return;
+    setShots(prev => mergeShots(prev, [entry.shot]));
+    setTrash(trash.filter(e => e.shot.id !== id));
+    removeFromTrash(activeBarista.id, id).catch(console.error);
+    if (undoShotId === id) setUndoShotId(null);
+  };
+
+  const purgeShot = (id: string) => {
+    setTrash(trash.filter(e => e.shot.id !== id));
+    removeFromTrash(activeBarista.id, id).catch(console.error);
+  };
+
+  const updateBarista = (profile: BaristaProfile) => {
+    setBaristas(prev => prev.map(b => b.id === profile.id ? profile : b));
+  };
+
+  const saveApiKey = (key: string) => {
+    updateBarista({ ...activeBarista, apiKey: key });
+    setShowKeyInput(false);
+  };
+
+  const switchBarista = (id: string) => {
+    setActiveBaristaId(id);
+    setIsAdding(false);
+    setAdvice(null);
+    setError(null);
+  };
+
+  const addBarista = (name: string) => {
+    const profile = createProfile(name, equipmentId);
+    setBaristas(prev => [...prev, profile]);
+    switchBarista(profile.id);
+  };
+
+  const removeBarista = (id: string) => {
+    deleteProfileShots(id).catch(console.error);
+    setBaristas(prev => prev.filter(b => b.id !== id));
+  };
+
+  const selectEquipment = (id: string) => {
+    const next = getEquipment(equipmentProfiles, id);
+    updateBarista({ ...activeBarista, equipmentId: next.id });
+    // Temperaturwert der alten Maschine ergibt auf der neuen meist keinen Sinn
+    setForm(prev => isValidTempSetting(next.machine, prev.tempSetting)
+      ? prev
+      : { ...prev, tempSetting: getDefaultTempSetting(next.machine) });
+  };
+
+  const selectedBag = bags.find(b => b.id === form.bagId);
+
+  const selectBag = (bag: BeanBag | null) => {
+    setForm(prev => bag
+      ? { ...prev, bagId: bag.id, beanName: bag.beanName, roastDate: bag.roastDate }
+      : { ...prev, bagId: undefined });
+  };
+
+  const handleStartSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    runSearch(false);
+  };
+
+  // Bereits recherchierte Bohnen kommen aus dem Cache, refresh erzwingt eine neue Websuche
+  const runSearch = async (refresh: boolean) => {
     if (!searchQuery) return;
     
     setError(null);
+    setSavedSearchRecipeId(null);
+    const cached = refresh ? null : getCachedSearch(searchQuery, equipment.id);
+    if (cached) {
+      setSearchRecommendation(cached.result);
+      setSearchCachedAt(cached.cachedAt);
+      return;
+    }
+    if (needsKeySetup(getActiveProvider(), Boolean(window.aistudio))) {
+      setShowKeyInput(true);
+      return;
+    }
     setIsSearching(true);
 
     try {
       // Überprüfung des API-Keys für Search-Grounding
-      if (window.aistudio) {
+      if (aiSettings.provider === 'gemini' && window.aistudio) {
         const hasKey = await window.aistudio.hasSelectedApiKey();
         if (!hasKey) {
           await window.aistudio.openSelectKey();
@@ -65,11 +307,17 @@ const App: React.FC = () => {
         }
       }
 
-      const rec = await searchCoffeeParameters(searchQuery);
-      if (!rec.found && rec.sources.length === 0) {
-        setError("Suche war nicht erfolgreich. Prüfe deine Verbindung.");
+      const rec = await searchCoffeeParameters(searchQuery, equipment);
+      const searchError = getSearchError(rec);
+      if (searchError) {
+        setError(searchError);
+        // Ein fehlgeschlagenes Nachladen verdrängt das gespeicherte Ergebnis nicht
+        if (refresh && searchRecommendation) return;
       }
+      // Demo-Antworten sind keine Recherche und sollen echte Ergebnisse nicht überdecken
+      if (aiSettings.provider !== 'mock') cacheSearch(searchQuery, rec, equipment.id);
       setSearchRecommendation(rec);
+      setSearchCachedAt(null);
     } catch (err: any) {
       setError("Verbindung zum Barista-Coach fehlgeschlagen.");
       console.error(err);
@@ -79,6 +327,12 @@ const App: React.FC = () => {
   };
 
   const applyRecommendation = () => {
+    // Passende Tüte aus dem Vorrat automatisch verknüpfen
+    const match = bags.find(b => b.remainingWeight > 0 && b.beanName.toLowerCase() === searchQuery.trim().toLowerCase());
+    if (match) selectBag(match);
+    else setForm(prev => ({ ...prev, bagId: undefined, roastDate: '' }));
+    // Neue Bohne, neues Rezept – nur ein eben gespeichertes Suchrezept bleibt verknüpft
+    setForm(prev => ({ ...prev, recipeId: savedSearchRecipeId || undefined }));
     if (searchRecommendation) {
       setForm(prev => ({
         ...prev,
@@ -86,7 +340,9 @@ const App: React.FC = () => {
         dose: searchRecommendation.dose || prev.dose,
         yield: searchRecommendation.yield || prev.yield,
         time: searchRecommendation.time || prev.time,
-        maraXTempSetting: searchRecommendation.maraXSetting || prev.maraXTempSetting,
+        tempSetting: isValidTempSetting(equipment.machine, searchRecommendation.tempSetting)
+          ? searchRecommendation.tempSetting
+          : prev.tempSetting,
       }));
     } else {
       setForm(prev => ({ ...prev, beanName: searchQuery }));
@@ -96,19 +352,31 @@ const App: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const id = Date.now().toString();
     const newShot: EspressoShot = {
       ...form as EspressoShot,
-      id: Date.now().toString(),
+      id,
       timestamp: Date.now(),
+      equipmentId: equipment.id,
+      sessionId: resolveSessionId({ id, bagId: form.bagId, beanName: form.beanName || '' }, shots),
+      lockedIn: false,
+      advice: undefined,
       flavorProfile: { ...form.flavorProfile! }
     };
     setShots([newShot, ...shots]);
+    // Messkurve, Zeitmessung und Refraktometer-Wert gehören nur zu diesem Shot
+    setForm(prev => ({ ...prev, curve: undefined, timing: undefined, tds: undefined }));
+    if (newShot.bagId) {
+      setBags(bags.map(b => b.id === newShot.bagId ? consumeDose(b, newShot.dose) : b));
+    }
     setIsAdding(false);
     
     setLoadingAdvice(true);
     try {
-      const aiAdvice = await getBaristaAdvice(newShot);
+      const aiAdvice = await getBaristaAdvice(newShot, getBeanHistory(shots, newShot, ADVICE_HISTORY_LIMIT), equipment);
       setAdvice(aiAdvice);
+      // Analyse dauerhaft am Shot ablegen, für den sie erstellt wurde
+      setShots(prev => prev.map(s => s.id === newShot.id ? { ...s, advice: aiAdvice } : s));
     } catch (err) {
       setError("Analyse-Fehler. Shot wurde lokal gespeichert.");
     } finally {
@@ -116,6 +384,18 @@ const App: React.FC = () => {
     }
   };
 
+  const applyAdjustment = (adjustment: DialInAdjustment) => {
+    setForm(prev => ({
+      ...prev,
+      grindSetting: applyGrindDelta(prev.grindSetting, adjustment.grindDelta),
+      dose: adjustment.targetDose || prev.dose,
+      yield: adjustment.targetYield || prev.yield,
+      time: adjustment.targetTime || prev.time,
+      tempSetting: isValidTempSetting(equipment.machine, adjustment.tempSetting) ? adjustment.tempSetting : prev.tempSetting,
+    }));
+  };
+
+  // Das Formular hält noch das Rezept des letzten Shots – Wiederholen übernimmt es unverändert
   const repeatShot = () => {
     setSearchStep(false);
     setIsAdding(true);
@@ -123,9 +403,76 @@ const App: React.FC = () => {
     setError(null);
   };
 
+  // Der nächste Shot startet vom gecoachten Rezept
+  const applyAdvice = (adjustment: DialInAdjustment) => {
+    applyAdjustment(adjustment);
+    repeatShot();
+  };
+
+  // Rezept eines früheren Shots übernehmen – unabhängig vom letzten Formularstand
+  const cloneShot = (source: EspressoShot) => {
+    setForm({
+      beanName: source.beanName,
+      roastDate: source.roastDate,
+      bagId: bags.some(b => b.id === source.bagId) ? source.bagId : undefined,
+      dose: source.dose,
+      yield: source.yield,
+      time: source.time,
+      tempSetting: isValidTempSetting(equipment.machine, source.tempSetting) ? source.tempSetting : getDefaultTempSetting(equipment.machine),
+      grindSetting: source.grindSetting,
+      notes: '',
+      flavorProfile: { ...DEFAULT_FLAVOR },
+    });
+    setSelectedShotId(null);
+    setSearchStep(false);
+    setIsAdding(true);
+    setAdvice(null);
+    setError(null);
+  };
+
+  const saveRecipe = (recipe: Recipe) => {
+    setRecipes(prev => [recipe, ...prev]);
+  };
+
+  const saveSearchAsRecipe = () => {
+    if (!searchRecommendation) return;
+    const recipe = recipeFromSearch(searchQuery.trim(), searchRecommendation, equipment);
+    saveRecipe(recipe);
+    setSavedSearchRecipeId(recipe.id);
+  };
+
+  // Shot nach Rezept: Formular und Timer-Ziele kommen aus dem Rezept
+  const startFromRecipe = (recipe: Recipe) => {
+    const bag = bags.find(b => b.remainingWeight > 0 && b.beanName.toLowerCase() === recipe.beanName.toLowerCase());
+    setForm({
+      beanName: recipe.beanName,
+      roastDate: bag?.roastDate || '',
+      bagId: bag?.id,
+      recipeId: recipe.id,
+      dose: recipe.dose,
+      yield: recipe.yield,
+      time: recipeTargetTime(recipe),
+      tempSetting: isValidTempSetting(equipment.machine, recipe.tempSetting) ? recipe.tempSetting : getDefaultTempSetting(equipment.machine),
+      grindSetting: recipe.grindSetting,
+      notes: '',
+      flavorProfile: { ...DEFAULT_FLAVOR },
+    });
+    setSelectedShotId(null);
+    setSearchStep(false);
+    setIsAdding(true);
+    setAdvice(null);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const startNewCoffee = () => {
+    setForm(prev => isValidTempSetting(equipment.machine, prev.tempSetting)
+      ? prev
+      : { ...prev, tempSetting: getDefaultTempSetting(equipment.machine) });
     setSearchQuery('');
     setSearchRecommendation(null);
+    setSavedSearchRecipeId(null);
+    setSearchCachedAt(null);
     setSearchStep(true);
     setIsAdding(true);
     setAdvice(null);
@@ -139,6 +486,10 @@ const App: React.FC = () => {
     }));
   };
 
+  if (showKeyInput) {
+    return <ApiKeySetup baristaName={activeBarista.name} onSave={saveApiKey} onSkip={() => setShowKeyInput(false)} />;
+  }
+
   return (
     <div className="min-h-screen bg-black text-slate-200 pb-20 md:pb-0">
       <header className="sticky top-0 z-50 bg-black/60 backdrop-blur-xl border-b border-white/5 px-4 md:px-6 py-4 flex justify-between items-center safe-top">
@@ -148,19 +499,31 @@ const App: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
              </svg>
           </div>
-          <div>
+          <div onClick={() => setShowEquipment(!showEquipment)} className="cursor-pointer">
             <h1 className="text-xl font-bold text-white italic leading-none font-serif tracking-tight">BaristaPro</h1>
-            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-[0.2em] mt-1">Mara X • VS3</p>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-[0.2em] mt-1">{equipment.name}</p>
           </div>
         </div>
-        {!isAdding && (
-          <button 
-            onClick={startNewCoffee} 
-            className="bg-amber-500 hover:bg-amber-600 text-black px-4 py-2 rounded-xl font-bold shadow-lg shadow-amber-500/10 transition-transform active:scale-95 text-xs"
-          >
-            Neuer Shot
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          <ProfileSwitcher
+            profiles={baristas}
+            activeId={activeBarista.id}
+            onSwitch={switchBarista}
+            onAdd={addBarista}
+            onUpdate={updateBarista}
+            onDelete={removeBarista}
+            onOpenTeam={() => setShowTeam(true)}
+            onOpenCoach={() => setShowCoachSettings(true)}
+          />
+          {!isAdding && (
+            <button 
+              onClick={startNewCoffee} 
+              className="bg-amber-500 hover:bg-amber-600 text-black px-4 py-2 rounded-xl font-bold shadow-lg shadow-amber-500/10 transition-transform active:scale-95 text-xs"
+            >
+              Neuer Shot
+            </button>
+          )}
+        </div>
       </header>
 
       <main className="max-w-4xl mx-auto p-4 md:p-8">
@@ -171,6 +534,59 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {selectedShot && (
+            <ShotDetail
+              key={selectedShot.id}
+              shot={selectedShot}
+              shots={shots}
+              equipmentProfiles={equipmentProfiles}
+              onSave={(updated) => setShots(shots.map(s => s.id === updated.id ? updated : s))}
+              onClone={cloneShot}
+              recipe={recipes.find(r => r.id === selectedShot.recipeId)}
+              onSaveRecipe={(shot) => saveRecipe(recipeFromShot(shot))}
+              onClose={() => setSelectedShotId(null)}
+            />
+          )}
+
+          {showTrash && (
+            <TrashPanel
+              entries={trash}
+              onRestore={restoreShot}
+              onPurge={purgeShot}
+              onClose={() => setShowTrash(false)}
+            />
+          )}
+
+          {showTeam && (
+            <TeamComparison
+              profiles={baristas}
+              equipmentProfiles={equipmentProfiles}
+              onClose={() => setShowTeam(false)}
+            />
+          )}
+
+          {showCoachSettings && (
+            <CoachSettings
+              settings={aiSettings}
+              onChange={setAiSettings}
+              onClose={() => setShowCoachSettings(false)}
+            />
+          )}
+
+          {showEquipment && (
+            <EquipmentSettings
+              profiles={equipmentProfiles}
+              selectedId={equipment.id}
+              onSelect={selectEquipment}
+              onAdd={(profile) => setCustomProfiles([...customProfiles, profile])}
+              onDelete={(id) => {
+                setCustomProfiles(customProfiles.filter(p => p.id !== id));
+                if (id === equipmentId) selectEquipment(DEFAULT_EQUIPMENT_ID);
+              }}
+              onClose={() => setShowEquipment(false)}
+            />
+          )}
+
           {isAdding ? (
             <div className="animate-in fade-in slide-in-from-bottom-8 duration-500">
               {searchStep ? (
@@ -191,10 +607,33 @@ const App: React.FC = () => {
                         type="submit" disabled={isSearching}
                         className="absolute right-2 top-2 bottom-2 bg-amber-500 hover:bg-amber-600 text-black px-4 rounded-xl font-bold disabled:opacity-50 transition-all active:scale-95"
                       >
-                        {isSearching ? '...' : 'Suche'}
+                        {isSearching ? '...' : cachedSearch ? 'Laden' : 'Suche'}
                       </button>
                     </div>
 
+                    {cachedSearch && (
+                      <p className="text-[10px] text-emerald-400/80 font-bold px-1">
+                        Bereits recherchiert ({formatCacheAge(cachedSearch.cachedAt)}) – das Ergebnis wird ohne neue Websuche geladen.
+                      </p>
+                    )}
+
+                    {searchRecipes.length > 0 && !isSearching && (
+                      <div className="space-y-2">
+                        <p className="text-[9px] uppercase text-slate-500 font-bold tracking-widest px-1">Gespeicherte Rezepte</p>
+                        <div className="flex gap-2 overflow-x-auto pb-1">
+                          {searchRecipes.map(r => (
+                            <button
+                              key={r.id} type="button" onClick={() => startFromRecipe(r)}
+                              className="shrink-0 text-left bg-[#1a1a1a] border border-white/5 rounded-xl px-3 py-2 max-w-[200px]"
+                            >
+                              <span className="block text-[11px] font-bold text-white truncate">{r.name}</span>
+                              <span className="block text-[9px] font-mono text-slate-500">{r.dose}g → {r.yield}g • {r.timeMin}–{r.timeMax}s</span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {isSearching && (
                       <div className="py-10 text-center">
                         <div className="w-10 h-10 border-2 border-amber-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
@@ -204,6 +643,17 @@ const App: React.FC = () => {
 
                     {searchRecommendation && (
                       <div className="space-y-6 animate-in fade-in zoom-in duration-300">
+                        {searchCachedAt !== null && (
+                          <div className="flex justify-between items-center px-1">
+                            <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Gespeichert • {formatCacheAge(searchCachedAt)}</span>
+                            <button
+                              type="button" onClick={() => runSearch(true)} disabled={isSearching}
+                              className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full disabled:opacity-50"
+                            >
+                              Neu recherchieren
+                            </button>
+                          </div>
+                        )}
                         {searchRecommendation.found ? (
                           <div className="bg-amber-500/5 border border-amber-500/10 rounded-[1.5rem] p-5">
                             <h3 className="text-amber-500 font-bold mb-4 flex items-center gap-2 text-sm uppercase tracking-wider">
@@ -213,19 +663,19 @@ const App: React.FC = () => {
                             <div className="grid grid-cols-2 gap-3 mb-4">
                               <div className="bg-white/5 p-3 rounded-2xl">
                                 <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Dose (In)</p>
-                                <p className="text-xl font-mono text-white">{searchRecommendation.dose || '18'}g</p>
+                                <p className="text-xl font-mono text-white">{formatSearchValue(searchRecommendation, 'dose', DEFAULT_RECIPE.dose)}g</p>
                               </div>
                               <div className="bg-white/5 p-3 rounded-2xl">
                                 <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Yield (Out)</p>
-                                <p className="text-xl font-mono text-white">{searchRecommendation.yield || '36'}g</p>
+                                <p className="text-xl font-mono text-white">{formatSearchValue(searchRecommendation, 'yield', DEFAULT_RECIPE.yield)}g</p>
                               </div>
                               <div className="bg-white/5 p-3 rounded-2xl">
                                 <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Zeit (Drops)</p>
-                                <p className="text-xl font-mono text-white">{searchRecommendation.time || '28'}s</p>
+                                <p className="text-xl font-mono text-white">{formatSearchValue(searchRecommendation, 'time', recipeTargetTime(DEFAULT_RECIPE))}s</p>
                               </div>
                               <div className="bg-white/5 p-3 rounded-2xl">
-                                <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Mara X PID</p>
-                                <p className="text-xl font-mono text-white">{searchRecommendation.maraXSetting || 'I'}</p>
+                                <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Temperatur</p>
+                                <p className="text-xl font-mono text-white">{formatTempSetting(equipment.machine, searchRecommendation.tempSetting || getDefaultTempSetting(equipment.machine))}</p>
                               </div>
                             </div>
                             <p className="text-xs text-slate-400 italic leading-relaxed mb-4 border-l border-amber-500/30 pl-3">"{searchRecommendation.description}"</p>
@@ -245,6 +695,20 @@ const App: React.FC = () => {
                             <p className="text-slate-400 text-sm">Kein spezifisches Rezept gefunden. <br/><span className="text-amber-500/70">Nutze Standard-Setup (1:2 Ratio).</span></p>
                           </div>
                         )}
+                        {searchRecommendation.dropped && searchRecommendation.dropped.length > 0 && (
+                          <div className="bg-red-500/5 border border-red-500/10 rounded-2xl p-4 space-y-1">
+                            <p className="text-[9px] text-red-400 font-bold uppercase tracking-widest">Verworfene Angaben</p>
+                            {searchRecommendation.dropped.map(d => <p key={d} className="text-[11px] text-slate-400">{d}</p>)}
+                          </div>
+                        )}
+                        {searchRecommendation.found && (
+                          <button
+                            onClick={saveSearchAsRecipe} type="button" disabled={savedSearchRecipeId !== null}
+                            className="w-full bg-white/5 text-amber-500 font-bold py-4 rounded-[1.5rem] transition-all text-sm disabled:text-slate-500"
+                          >
+                            {savedSearchRecipeId ? 'Als Rezept gespeichert' : 'Als Rezept speichern'}
+                          </button>
+                        )}
                         <button 
                           onClick={applyRecommendation} type="button"
                           className="w-full bg-amber-500 active:scale-95 text-black font-bold py-5 rounded-[1.5rem] shadow-xl transition-all text-lg"
@@ -261,9 +725,51 @@ const App: React.FC = () => {
                     <h2 className="text-xl font-bold text-white font-serif truncate max-w-[70%]">{form.beanName}</h2>
                     <button onClick={() => setSearchStep(true)} className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full">Bohne ändern</button>
                   </div>
+
+                  {activeRecipe && (
+                    <div className="mb-6 p-4 bg-amber-500/5 border border-amber-500/10 rounded-3xl flex justify-between items-center gap-3">
+                      <div className="min-w-0">
+                        <p className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Rezept</p>
+                        <p className="text-sm font-bold text-amber-500 truncate">{activeRecipe.name}</p>
+                        <p className="text-[10px] font-mono text-slate-500">
+                          {activeRecipe.dose}g → {activeRecipe.yield}g • {activeRecipe.timeMin}–{activeRecipe.timeMax}s{activeRecipe.grindSetting ? ` • Mahlgrad ${activeRecipe.grindSetting}` : ''}
+                        </p>
+                      </div>
+                      <button type="button" onClick={() => setForm({ ...form, recipeId: undefined })} className="text-slate-500 text-[10px] font-bold uppercase shrink-0">Lösen</button>
+                    </div>
+                  )}
                   
+                  {bags.length > 0 && (
+                    <div className="mb-6 p-4 bg-white/5 rounded-3xl border border-white/5">
+                      <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-3">Tüte</label>
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        <button type="button" onClick={() => selectBag(null)} className={`shrink-0 px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${!form.bagId ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}>Ohne</button>
+                        {bags.filter(b => b.remainingWeight > 0 || b.id === form.bagId).map(b => (
+                          <button key={b.id} type="button" onClick={() => selectBag(b)} className={`shrink-0 px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all max-w-[180px] truncate ${form.bagId === b.id ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}>
+                            {formatBagLabel(b)}
+                          </button>
+                        ))}
+                      </div>
+                      {selectedBag && (
+                        <p className={`text-[10px] font-bold mt-3 ${isLowStock(selectedBag, form.dose) ? 'text-red-400' : 'text-slate-500'}`}>
+                          Noch {selectedBag.remainingWeight}g{isLowStock(selectedBag, form.dose) ? ' – Tüte fast leer!' : ''}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="mb-8">
-                    <ShotTimer onStop={(seconds) => setForm(prev => ({ ...prev, time: seconds }))} />
+                    <ShotTimer
+                      scale={scale}
+                      onScaleChange={setScale}
+                      targets={activeRecipe ? recipeTargets(activeRecipe) : targetsFromRecipe(form.time, form.yield, lastTiming?.preinfusion)}
+                      onStop={(timing, measurement) => setForm(prev => ({
+                        ...prev,
+                        time: Math.floor(timing.extraction),
+                        timing,
+                        ...(measurement ? { yield: measurement.yield, curve: measurement.curve } : {}),
+                      }))}
+                    />
                   </div>
 
                   <form onSubmit={handleSubmit} className="space-y-8">
@@ -284,17 +790,46 @@ const App: React.FC = () => {
 
                     <div className="space-y-6">
                       <div className="p-5 bg-white/5 rounded-3xl border border-white/5">
-                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-4">Mara X PID Stufe</label>
-                        <div className="flex gap-3">
-                          {(['0', 'I', 'II'] as const).map(l => (
-                            <button key={l} type="button" onClick={() => setForm({...form, maraXTempSetting: l})} className={`flex-1 py-4 rounded-2xl font-bold transition-all ${form.maraXTempSetting === l ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'bg-[#1a1a1a] text-slate-500'}`}>{l}</button>
-                          ))}
-                        </div>
+                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-4">{equipment.machine.name} Temperatur</label>
+                        {tempOptions ? (
+                          <div className="flex gap-3">
+                            {tempOptions.map(l => (
+                              <button key={l} type="button" onClick={() => setForm({...form, tempSetting: l})} className={`flex-1 py-4 rounded-2xl font-bold transition-all ${form.tempSetting === l ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'bg-[#1a1a1a] text-slate-500'}`}>{l}</button>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="flex items-baseline gap-2">
+                            <input type="number" step={equipment.machine.tempRange?.step ?? 0.5} min={equipment.machine.tempRange?.min} max={equipment.machine.tempRange?.max} className="w-full bg-transparent text-xl text-amber-500 font-mono outline-none py-2" value={form.tempSetting} onChange={e => setForm({...form, tempSetting: e.target.value})} />
+                            <span className="text-slate-600 font-mono">°C</span>
+                          </div>
+                        )}
                       </div>
                       
                       <div className="p-5 bg-white/5 rounded-3xl border border-white/5">
-                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-1">Varia VS3 Grind</label>
-                        <input type="text" placeholder="z.B. 2.5" className="w-full bg-transparent text-xl text-amber-500 font-mono outline-none py-2" value={form.grindSetting} onChange={e => setForm({...form, grindSetting: e.target.value})} />
+                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-1">
+                          Röstdatum{daysOffRoast(form.roastDate) !== null && <span className="text-amber-500/80 ml-2">Tag {daysOffRoast(form.roastDate)}</span>}
+                        </label>
+                        <input type="date" className="w-full bg-transparent text-xl text-amber-500 font-mono outline-none py-2" value={form.roastDate} onChange={e => setForm({...form, roastDate: e.target.value})} />
+                      </div>
+
+                      <div className="p-5 bg-white/5 rounded-3xl border border-white/5">
+                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-1">{equipment.grinder.name} Grind</label>
+                        <input type="text" placeholder={`${equipment.grinder.scaleMin}–${equipment.grinder.scaleMax}`} className="w-full bg-transparent text-xl text-amber-500 font-mono outline-none py-2" value={form.grindSetting} onChange={e => setForm({...form, grindSetting: e.target.value})} />
+                      </div>
+
+                      <div className="p-5 bg-white/5 rounded-3xl border border-white/5">
+                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest block mb-1">
+                          TDS (optional){formReading && <span className="text-amber-500/80 ml-2">EY {formReading.ey}%</span>}
+                        </label>
+                        <div className="flex items-baseline gap-2">
+                          <input type="number" step="0.01" min="0" placeholder="Refraktometer" className="w-full bg-transparent text-xl text-amber-500 font-mono outline-none py-2" value={form.tds ?? ''} onChange={e => setForm({...form, tds: e.target.value ? Number(e.target.value) : undefined})} />
+                          <span className="text-slate-600 font-mono">%</span>
+                        </div>
+                        {formReading && (
+                          <p className="text-[10px] text-slate-500 font-bold mt-1">
+                            {STRENGTH_LABEL[formReading.strength]} • {EXTRACTION_LABEL[formReading.extraction]}
+                          </p>
+                        )}
                       </div>
 
                       <div className="p-5 bg-white/5 rounded-3xl border border-white/5">
@@ -330,8 +865,13 @@ const App: React.FC = () => {
                     <svg className="w-10 h-10 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
                   </div>
                   <h2 className="text-2xl font-bold text-white mb-3 font-serif italic">Bereit für den Shot?</h2>
-                  <p className="text-slate-500 text-sm mb-8 leading-relaxed">Finde das perfekte Rezept für deine Bohnen auf deiner Mara X.</p>
+                  <p className="text-slate-500 text-sm mb-8 leading-relaxed">Finde das perfekte Rezept für deine Bohnen auf deiner {equipment.machine.name}.</p>
                   <button onClick={startNewCoffee} className="bg-amber-500 text-black px-10 py-4 rounded-2xl font-bold shadow-xl active:scale-95 transition-all">Suchen & Starten</button>
+                  {trash.length > 0 && (
+                    <button onClick={() => setShowTrash(true)} className="block mx-auto mt-6 text-slate-500 text-[10px] font-bold uppercase tracking-widest">
+                      Papierkorb ({trash.length})
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div 
@@ -357,7 +897,11 @@ const App: React.FC = () => {
                     </div>
                     <div>
                       <h2 className="text-2xl font-bold text-white font-serif italic tracking-tight">Barista Coach</h2>
-                      <p className="text-slate-500 text-[9px] font-bold uppercase tracking-[0.2em]">Equipment-Analyse</p>
+                      <p className="text-slate-500 text-[9px] font-bold uppercase tracking-[0.2em]">
+                        {advice.source === 'offline'
+                          ? <span className="text-sky-400">Offline-Engine</span>
+                          : advice.source && advice.source !== 'gemini' ? PROVIDER_LABEL[advice.source] : 'Equipment-Analyse'}
+                      </p>
                     </div>
                   </div>
                   <div className="space-y-6">
@@ -373,9 +917,49 @@ const App: React.FC = () => {
                       <div className="bg-amber-500/10 border border-amber-500/20 p-5 rounded-2xl">
                         <p className="text-[9px] font-bold uppercase text-amber-500 mb-2">Anpassung</p>
                         <p className="text-amber-500 font-bold text-xl leading-tight">{advice.adjustment}</p>
+                        {advice.lastGrindChange && advice.lastGrindChange.direction !== 'unknown' && (
+                          <p className="text-[10px] text-slate-500 font-bold uppercase mt-3">
+                            Letzte Änderung: {advice.lastGrindChange.direction === 'unchanged'
+                              ? 'Mahlgrad unverändert'
+                              : `${advice.lastGrindChange.direction === 'finer' ? 'feiner' : 'gröber'} um ${advice.lastGrindChange.amount}`}
+                          </p>
+                        )}
                       </div>
                     </div>
 
+                    {advice.nextShot && (
+                      <div className="bg-black/40 p-5 rounded-2xl border border-white/5">
+                        <p className="text-[9px] font-bold uppercase text-slate-500 mb-3">Nächster Shot</p>
+                        <div className="grid grid-cols-5 gap-2 text-center mb-4">
+                          {[
+                            { l: 'Mahlgrad', v: advice.nextShot.grindDelta === 0 ? '±0' : `${advice.nextShot.grindDelta > 0 ? '+' : ''}${advice.nextShot.grindDelta}` },
+                            { l: 'In', v: `${advice.nextShot.targetDose}g` },
+                            { l: 'Out', v: `${advice.nextShot.targetYield}g` },
+                            { l: 'Zeit', v: `${advice.nextShot.targetTime}s` },
+                            { l: 'Temp', v: formatTempSetting(equipment.machine, advice.nextShot.tempSetting) },
+                          ].map(t => (
+                            <div key={t.l}>
+                              <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                              <p className="text-xs font-mono text-amber-500">{t.v}</p>
+                            </div>
+                          ))}
+                        </div>
+                        <button
+                          onClick={() => applyAdvice(advice.nextShot!)}
+                          className="w-full bg-amber-500/10 text-amber-500 font-bold py-3 rounded-xl border border-amber-500/20 transition-all active:scale-95 text-xs uppercase tracking-widest"
+                        >
+                          Übernehmen
+                        </button>
+                      </div>
+                    )}
+
+                    {advice.trajectory && (
+                      <div className="bg-black/40 p-5 rounded-2xl border border-white/5">
+                        <p className="text-[9px] font-bold uppercase text-slate-500 mb-2">Session-Verlauf</p>
+                        <p className="text-slate-400 text-sm leading-relaxed">{advice.trajectory}</p>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-3 pt-4">
                       <button 
                         onClick={repeatShot}
@@ -403,10 +987,47 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              <BeanInventory
+                bags={bags}
+                onAdd={(bag) => setBags([bag, ...bags])}
+                onDelete={(id) => setBags(bags.filter(b => b.id !== id))}
+              />
+
+              <RecipeLibrary
+                recipes={recipes}
+                shots={shots}
+                beans={Array.from(new Set([...bags.map(b => b.beanName), ...shots.map(s => s.beanName)])).filter(Boolean)}
+                equipment={equipment}
+                equipmentProfiles={equipmentProfiles}
+                onAdd={saveRecipe}
+                onDelete={(id) => setRecipes(recipes.filter(r => r.id !== id))}
+                onStart={startFromRecipe}
+              />
+
+              <SessionPanel
+                sessions={groupSessions(shots)}
+                onToggleLock={(shotId) => setShots(toggleLockedIn(shots, shotId))}
+              />
+
+              <JournalTransfer
+                shots={shots}
+                equipmentProfiles={equipmentProfiles}
+                profileName={activeBarista.name}
+                onImport={(imported) => setShots(prev => mergeShots(prev, imported))}
+              />
+
               {shots.length > 0 && (
                 <div className="space-y-8">
                    <div className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-xl overflow-hidden">
-                      <h2 className="text-[10px] font-bold mb-6 text-slate-500 uppercase tracking-[0.2em]">Performance Trend</h2>
+                      <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em]">Performance Trend</h2>
+                        <button
+                          onClick={() => setShowAnalytics(!showAnalytics)}
+                          className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full"
+                        >
+                          {showAnalytics ? 'Analyse schließen' : 'Analyse'}
+                        </button>
+                      </div>
                       <div className="h-44 w-full -ml-4">
                         <ResponsiveContainer width="100%" height="100%">
                           <LineChart data={[...shots].reverse()}>
@@ -415,25 +1036,60 @@ const App: React.FC = () => {
                             <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #333', borderRadius: '12px', fontSize: '10px' }} />
                             <Line type="monotone" dataKey="time" stroke="#f59e0b" strokeWidth={3} dot={false} />
                             <Line type="monotone" dataKey="flavorProfile.overall" stroke="#10b981" strokeWidth={1} dot={false} strokeDasharray="4 4" />
+                            <Line type="monotone" dataKey="timing.preinfusion" name="Erster Tropfen" stroke="#38bdf8" strokeWidth={1.5} dot={false} connectNulls />
                           </LineChart>
                         </ResponsiveContainer>
                       </div>
                    </div>
 
+                   {showAnalytics && <AnalyticsDashboard shots={shots} onClose={() => setShowAnalytics(false)} />}
+
                    <section className="space-y-4">
                       <div className="flex justify-between items-end px-2 mb-2">
                         <h2 className="text-xl font-bold font-serif italic text-white tracking-tight">Journal</h2>
-                        <span className="text-[9px] bg-white/5 px-3 py-1 rounded-full text-slate-500 font-bold uppercase">{shots.length} Einträge</span>
+                        <div className="flex items-center gap-2">
+                          {trash.length > 0 && (
+                            <button
+                              onClick={() => setShowTrash(!showTrash)}
+                              className="text-[9px] bg-white/5 px-3 py-1 rounded-full text-slate-400 font-bold uppercase"
+                            >
+                              Papierkorb ({trash.length})
+                            </button>
+                          )}
+                          <span className="text-[9px] bg-white/5 px-3 py-1 rounded-full text-slate-500 font-bold uppercase">
+                            {isFilterActive(journalFilter) ? `${journalShots.length} von ${shots.length}` : shots.length} Einträge
+                          </span>
+                        </div>
                       </div>
+                      <JournalFilters
+                        filter={journalFilter}
+                        onChange={setJournalFilter}
+                        beans={Array.from(new Set(shots.map(s => s.beanName).filter(Boolean))).sort()}
+                        tempSettings={Array.from(new Set(shots.map(s => s.tempSetting).filter(Boolean))).sort()}
+                        formatTemp={(value) => formatTempSetting(equipment.machine, value)}
+                      />
                       <div className="grid grid-cols-1 gap-4">
-                        {shots.map(shot => (
+                        {journalShots.slice(0, journalLimit).map(shot => (
                           <ShotCard 
                             key={shot.id} 
-                            shot={shot} 
-                            onDelete={(id) => setShots(shots.filter(s => s.id !== id))} 
+                            shot={shot}
+                            equipment={getEquipment(equipmentProfiles, shot.equipmentId)}
+                            onDelete={deleteShot}
+                            onSelect={openShotDetail} 
                           />
                         ))}
                       </div>
+                      {journalShots.length === 0 && (
+                        <p className="text-slate-600 text-xs text-center py-6">Keine Shots für diese Filter.</p>
+                      )}
+                      {journalShots.length > journalLimit && (
+                        <button
+                          onClick={() => setJournalLimit(journalLimit + JOURNAL_PAGE_SIZE)}
+                          className="w-full bg-white/5 text-slate-400 font-bold py-4 rounded-2xl border border-white/5 transition-all active:scale-95 text-xs uppercase tracking-widest"
+                        >
+                          Mehr laden ({journalShots.length - journalLimit} weitere)
+                        </button>
+                      )}
                    </section>
                 </div>
               )}
@@ -442,6 +1098,14 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {undoShotId && (
+        <UndoToast
+          message="Shot in den Papierkorb verschoben."
+          onUndo={() => restoreShot(undoShotId)}
+          onDismiss={() => setUndoShotId(null)}
+        />
+      )}
+
       {!isAdding && shots.length > 0 && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 md:hidden animate-in fade-in slide-in-from-bottom-10 duration-700">
            <button 
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { EspressoShot } from '../types.ts';
+import {
+  getBeansPerMonth, getControlPoints, getExtractionPoints, getFlavorRadar, getGrindTimePoints, getShotsPerDay, linearRegression,
+} from '../services/analyticsService.ts';
+import { TARGET_RATIO, TARGET_TIME } from '../services/offlineCoach.ts';
+import { TARGET_TDS } from '../services/extractionService.ts';
+import { BrewControlChart } from './BrewControlChart.tsx';
+import {
+  BarChart, Bar, CartesianGrid, Cell, ComposedChart, Line, PolarAngleAxis, PolarGrid, Radar, RadarChart,
+  ReferenceArea, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis,
+} from 'recharts';
+
+interface AnalyticsDashboardProps {
+  shots: EspressoShot[];
+  onClose: () => void;
+}
+
+// Bewertung 1–5 von rot nach grün
+const RATING_COLOR = ['#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981'];
+
+const TOOLTIP_STYLE = { backgroundColor: '#000', border: '1px solid #333', borderRadius: '12px', fontSize: '10px' };
+
+const Panel: React.FC<{ title: string; children: React.ReactNode; note?: string }> = ({ title, children, note }) => (
+  <div className="bg-black/40 border border-white/5 rounded-2xl p-4">
+    <div className="flex justify-between items-baseline mb-3">
+      <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em]">{title}</h3>
+      {note && <span className="text-[9px] font-mono text-slate-600">{note}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ shots, onClose }) => {
+  const beans = Array.from(new Set(shots.map(s => s.beanName).filter(Boolean))).sort();
+  const [bean, setBean] = useState<string>(beans[0] || '');
+  const activeBean = beans.includes(bean) ? bean : beans[0] || '';
+
+  const controlPoints = getControlPoints(shots);
+  const extractionPoints = getExtractionPoints(shots);
+  const grindPoints = getGrindTimePoints(shots, activeBean);
+  const regression = linearRegression(grindPoints);
+  const grindXs = grindPoints.map(p => p.x);
+  const regressionLine = regression
+    ? [Math.min(...grindXs), Math.max(...grindXs)].map(x => ({ x, y: Math.round((regression.slope * x + regression.intercept) * 10) / 10 }))
+    : [];
+  const beanRadar = getFlavorRadar(shots.filter(s => s.beanName === activeBean));
+  const allRadar = getFlavorRadar(shots);
+  const radarData = beanRadar.map((entry, i) => ({ axis: entry.axis, bean: entry.value, all: allRadar[i].value }));
+
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-xl space-y-4 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white font-serif">Analyse</h2>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      <Panel title="Brew Control" note={`Ziel ${TARGET_TIME.min}–${TARGET_TIME.max}s • 1:${TARGET_RATIO.min}–${TARGET_RATIO.max}`}>
+        <div className="h-56 w-full -ml-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="time" name="Zeit" unit="s" stroke="#334155" fontSize={8} domain={['dataMin - 2', 'dataMax + 2']} />
+              <YAxis type="number" dataKey="ratio" name="Ratio" stroke="#334155" fontSize={8} domain={[1, 'dataMax + 0.2']} />
+              <ZAxis range={[40, 40]} />
+              <ReferenceArea
+                x1={TARGET_TIME.min} x2={TARGET_TIME.max} y1={TARGET_RATIO.min} y2={TARGET_RATIO.max}
+                shape={({ x, y, width, height }) => (
+                  <rect x={x} y={y} width={width} height={height} fill="#10b981" fillOpacity={0.08} stroke="#10b981" strokeOpacity={0.3} />
+                )}
+              />
+              <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ strokeDasharray: '3 3' }} />
+              <Scatter data={controlPoints} isAnimationActive={false}>
+                {controlPoints.map(p => <Cell key={p.id} fill={RATING_COLOR[p.rating - 1]} />)}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex gap-3 justify-center mt-2">
+          {RATING_COLOR.map((color, i) => (
+            <span key={color} className="flex items-center gap-1 text-[9px] text-slate-500 font-bold">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />{i + 1}
+            </span>
+          ))}
+        </div>
+      </Panel>
+
+      {extractionPoints.length > 0 && (
+        <Panel title="Stärke vs. Extraktion" note={`${extractionPoints.length} gemessen • Ziel TDS ${TARGET_TDS.min}–${TARGET_TDS.max}%`}>
+          <BrewControlChart points={extractionPoints} ratingColors={RATING_COLOR} />
+        </Panel>
+      )}
+
+      {beans.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {beans.map(b => (
+            <button
+              key={b}
+              onClick={() => setBean(b)}
+              className={`shrink-0 px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all max-w-[180px] truncate ${activeBean === b ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}
+            >
+              {b}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <Panel
+          title="Mahlgrad vs. Zeit"
+          note={regression ? `${regression.slope >= 0 ? '+' : ''}${regression.slope.toFixed(1)}s/Stufe • R² ${regression.r2.toFixed(2)}` : undefined}
+        >
+          {grindPoints.length < 2 ? (
+            <p className="text-slate-600 text-xs py-10 text-center">Mindestens zwei Shots mit numerischem Mahlgrad nötig.</p>
+          ) : (
+            <div className="h-48 w-full -ml-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart>
+                  <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="x" name="Mahlgrad" stroke="#334155" fontSize={8} domain={['dataMin', 'dataMax']} />
+                  <YAxis type="number" dataKey="y" name="Zeit" unit="s" stroke="#334155" fontSize={8} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} />
+                  <Scatter data={grindPoints} fill="#f59e0b" isAnimationActive={false} />
+                  {regressionLine.length > 0 && (
+                    <Line data={regressionLine} dataKey="y" stroke="#94a3b8" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </Panel>
+
+        <Panel title="Geschmacksprofil" note="Bohne vs. Gesamtschnitt">
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadarChart data={radarData} outerRadius="70%">
+                <PolarGrid stroke="#1e293b" />
+                <PolarAngleAxis dataKey="axis" tick={{ fill: '#64748b', fontSize: 9 }} />
+                <Radar name="Alle" dataKey="all" stroke="#475569" fill="#475569" fillOpacity={0.15} />
+                <Radar name={activeBean} dataKey="bean" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.3} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+              </RadarChart>
+            </ResponsiveContainer>
+          </div>
+        </Panel>
+
+        <Panel title="Shots pro Tag" note="14 Tage">
+          <div className="h-36 w-full -ml-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={getShotsPerDay(shots)}>
+                <XAxis dataKey="label" stroke="#334155" fontSize={8} tickLine={false} interval={1} />
+                <YAxis allowDecimals={false} stroke="#334155" fontSize={8} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.03)' }} />
+                <Bar dataKey="shots" name="Shots" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Panel>
+
+        <Panel title="Bohnen pro Monat" note="6 Monate">
+          <div className="h-36 w-full -ml-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={getBeansPerMonth(shots)}>
+                <XAxis dataKey="label" stroke="#334155" fontSize={8} tickLine={false} />
+                <YAxis allowDecimals={false} stroke="#334155" fontSize={8} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.03)' }} />
+                <Bar dataKey="beans" name="Bohnen" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Panel>
+      </div>
+    </section>
+  );
+};
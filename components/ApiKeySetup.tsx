@@ -0,0 +1,58 @@
+import React from 'react';
+
+interface ApiKeySetupProps {
+  baristaName: string;
+  onSave: (key: string) => void;
+  onSkip: () => void; // Weiter mit Offline-Engine oder anderem Anbieter
+}
+
+export const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ baristaName, onSave, onSkip }) => {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-6 animate-in fade-in duration-500">
+      <div className="bg-[#111] p-8 rounded-[2.5rem] border border-amber-500/20 max-w-md w-full shadow-2xl relative overflow-hidden">
+        {/* Background decoration */}
+        <div className="absolute top-0 right-0 w-32 h-32 bg-amber-500/5 rounded-full blur-3xl -mr-10 -mt-10"></div>
+
+        <div className="w-16 h-16 bg-gradient-to-br from-amber-400 to-amber-600 rounded-2xl flex items-center justify-center mb-6 mx-auto shadow-lg shadow-amber-500/20">
+           <svg className="w-8 h-8 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
+        </div>
+        <h2 className="text-3xl font-bold text-white text-center mb-2 font-serif tracking-tight">Setup Required</h2>
+        <p className="text-slate-400 text-center text-sm mb-8 leading-relaxed">
+          Für den Barista-Coach benötigen wir deinen <span className="text-amber-500 font-bold">Google Gemini API Key</span>.<br/>
+          <span className="text-xs text-slate-600 block mt-2">Der Key wird lokal in deinem Browser im Profil von {baristaName} gespeichert.</span>
+        </p>
+
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          const val = (e.currentTarget.elements.namedItem('key') as HTMLInputElement).value;
+          if (val.trim()) onSave(val.trim());
+        }} className="space-y-5">
+          <div className="relative group">
+            <input
+              name="key"
+              type="password"
+              placeholder="Gemini API Key einfügen..."
+              className="w-full bg-black/40 border border-white/10 rounded-2xl p-5 text-white focus:border-amber-500/50 outline-none transition-all placeholder:text-slate-700 text-center font-mono text-sm group-focus-within:bg-black/60"
+              autoFocus
+              autoComplete="off"
+            />
+          </div>
+          <button type="submit" className="w-full bg-amber-500 hover:bg-amber-400 text-black font-bold py-5 rounded-2xl shadow-xl transition-all active:scale-95 text-lg">
+            Speichern & Starten
+          </button>
+          <button type="button" onClick={onSkip} className="w-full text-slate-500 text-xs font-bold uppercase tracking-widest py-2">
+            Ohne Key fortfahren (Offline-Coach)
+          </button>
+
+          <div className="pt-4 text-center border-t border-white/5">
+            <p className="text-xs text-slate-500 mb-2">Noch kein Key?</p>
+            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="inline-flex items-center gap-2 text-[10px] bg-white/5 hover:bg-white/10 text-slate-300 px-4 py-2 rounded-full uppercase tracking-widest font-bold transition-colors">
+              <span>Key erstellen</span>
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+            </a>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { BeanBag, RoastLevel } from '../types.ts';
+import { ROAST_LEVELS, daysOffRoast, getRestStatus, isLowStock, RestStatus } from '../services/beanService.ts';
+
+interface BeanInventoryProps {
+  bags: BeanBag[];
+  onAdd: (bag: BeanBag) => void;
+  onDelete?: (id: string) => void;
+}
+
+const REST_BADGE: Record<RestStatus, { label: string; className: string }> = {
+  resting: { label: 'Ruht noch', className: 'text-sky-400 bg-sky-400/10' },
+  ready: { label: 'Im Fenster', className: 'text-emerald-400 bg-emerald-400/10' },
+  stale: { label: 'Über Peak', className: 'text-red-400 bg-red-400/10' },
+  unknown: { label: 'Röstdatum?', className: 'text-slate-500 bg-white/5' },
+};
+
+const emptyBag = () => ({
+  beanName: '',
+  roaster: '',
+  origin: '',
+  process: '',
+  roastLevel: 'medium' as RoastLevel,
+  roastDate: new Date().toISOString().slice(0, 10),
+  bagWeight: 250,
+});
+
+export const BeanInventory: React.FC<BeanInventoryProps> = ({ bags, onAdd, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(emptyBag());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.beanName) return;
+    onAdd({
+      ...draft,
+      id: Date.now().toString(),
+      createdAt: Date.now(),
+      remainingWeight: draft.bagWeight,
+    });
+    setDraft(emptyBag());
+    setIsOpen(false);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-end px-2 mb-2">
+        <h2 className="text-xl font-bold font-serif italic text-white tracking-tight">Bohnen-Vorrat</h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full"
+        >
+          {isOpen ? 'Schließen' : 'Neue Tüte'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="bg-[#111] p-5 rounded-[1.5rem] border border-white/5 space-y-3 animate-in fade-in slide-in-from-top-4">
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              { k: 'beanName', l: 'Bohne', p: 'z.B. Yirgacheffe' },
+              { k: 'roaster', l: 'Röster', p: 'z.B. Machhörndl' },
+              { k: 'origin', l: 'Herkunft', p: 'z.B. Äthiopien' },
+              { k: 'process', l: 'Aufbereitung', p: 'z.B. washed' },
+            ] as const).map(f => (
+              <div key={f.k} className="space-y-1">
+                <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">{f.l}</label>
+                <input
+                  type="text" required={f.k === 'beanName'} placeholder={f.p}
+                  className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700"
+                  value={draft[f.k]}
+                  onChange={e => setDraft({ ...draft, [f.k]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Röstdatum</label>
+              <input
+                type="date"
+                className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-amber-500/50"
+                value={draft.roastDate}
+                onChange={e => setDraft({ ...draft, roastDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Tüte (g)</label>
+              <input
+                type="number" min="0"
+                className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm font-mono text-amber-500 outline-none focus:border-amber-500/50"
+                value={draft.bagWeight}
+                onChange={e => setDraft({ ...draft, bagWeight: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            {ROAST_LEVELS.map(r => (
+              <button
+                key={r.value} type="button"
+                onClick={() => setDraft({ ...draft, roastLevel: r.value })}
+                className={`px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${draft.roastLevel === r.value ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <button type="submit" className="w-full bg-amber-500 active:scale-95 text-black font-bold py-4 rounded-2xl transition-all text-sm">Tüte anlegen</button>
+        </form>
+      )}
+
+      {bags.length === 0 ? (
+        <p className="text-slate-600 text-xs px-2">Noch keine Bohnen erfasst.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {bags.map(bag => {
+            const days = daysOffRoast(bag.roastDate);
+            const badge = REST_BADGE[getRestStatus(bag)];
+            const fill = bag.bagWeight > 0 ? Math.min(100, (bag.remainingWeight / bag.bagWeight) * 100) : 0;
+            return (
+              <div key={bag.id} className="bg-[#111] border border-white/5 p-4 rounded-[1.5rem]">
+                <div className="flex justify-between items-start mb-3">
+                  <div className="max-w-[75%]">
+                    <h3 className="text-sm font-bold text-white truncate">{bag.beanName}</h3>
+                    <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest truncate">
+                      {[bag.roaster, bag.origin, bag.process].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                  {onDelete && (
+                    <button onClick={() => onDelete(bag.id)} className="text-slate-700 hover:text-red-500/50 transition-colors text-[10px] font-bold uppercase">
+                      Entfernen
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 mb-3">
+                  <span className={`text-[9px] font-bold uppercase px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>
+                  {days !== null && <span className="text-[9px] text-slate-500 font-bold uppercase">{days} Tage nach Röstung</span>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${isLowStock(bag) ? 'bg-red-500/70' : 'bg-amber-500/60'}`} style={{ width: `${fill}%` }} />
+                  </div>
+                  <span className={`text-[10px] font-mono ${isLowStock(bag) ? 'text-red-400' : 'text-slate-400'}`}>{bag.remainingWeight}g</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
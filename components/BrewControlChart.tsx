@@ -0,0 +1,68 @@
+import React from 'react';
+import { ExtractionPoint } from '../services/analyticsService.ts';
+import { CONTROL_RATIOS, TARGET_EY, TARGET_TDS } from '../services/extractionService.ts';
+import {
+  CartesianGrid, Cell, ReferenceArea, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis,
+} from 'recharts';
+
+interface BrewControlChartProps {
+  points: ExtractionPoint[];
+  ratingColors: string[]; // Index = Bewertung - 1
+}
+
+// Sichtbarer Ausschnitt, wächst mit Ausreißern mit
+const EY_DOMAIN = { min: 14, max: 26 };
+const TDS_DOMAIN = { min: 5, max: 15 };
+
+const TOOLTIP_STYLE = { backgroundColor: '#000', border: '1px solid #333', borderRadius: '12px', fontSize: '10px' };
+
+/**
+ * Brewing Control Chart nach SCA-Vorbild: Stärke (TDS) gegen Extraktion (EY).
+ * Die Diagonalen sind Linien gleicher Ratio, der grüne Kasten das Zielfenster.
+ */
+export const BrewControlChart: React.FC<BrewControlChartProps> = ({ points, ratingColors }) => {
+  const eyMin = Math.min(EY_DOMAIN.min, ...points.map(p => Math.floor(p.ey)));
+  const eyMax = Math.max(EY_DOMAIN.max, ...points.map(p => Math.ceil(p.ey)));
+  const tdsMin = Math.min(TDS_DOMAIN.min, ...points.map(p => Math.floor(p.tds)));
+  const tdsMax = Math.max(TDS_DOMAIN.max, ...points.map(p => Math.ceil(p.tds)));
+
+  return (
+    <div>
+      <div className="h-56 w-full -ml-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart>
+            <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="ey" name="Extraktion" unit="%" stroke="#334155" fontSize={8} domain={[eyMin, eyMax]} allowDataOverflow />
+            <YAxis type="number" dataKey="tds" name="TDS" unit="%" stroke="#334155" fontSize={8} domain={[tdsMin, tdsMax]} allowDataOverflow />
+            <ZAxis range={[40, 40]} />
+            <ReferenceArea
+              x1={TARGET_EY.min} x2={TARGET_EY.max} y1={TARGET_TDS.min} y2={TARGET_TDS.max}
+              shape={({ x, y, width, height }) => (
+                <rect x={x} y={y} width={width} height={height} fill="#10b981" fillOpacity={0.08} stroke="#10b981" strokeOpacity={0.3} />
+              )}
+            />
+            {CONTROL_RATIOS.map(ratio => (
+              <ReferenceLine
+                key={ratio}
+                segment={[{ x: eyMin, y: eyMin / ratio }, { x: eyMax, y: eyMax / ratio }]}
+                stroke="#475569"
+                strokeDasharray="2 4"
+                ifOverflow="hidden"
+                label={{ value: `1:${ratio}`, position: 'insideTopRight', fill: '#64748b', fontSize: 8 }}
+              />
+            ))}
+            <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter data={points} isAnimationActive={false}>
+              {points.map(p => <Cell key={p.id} fill={ratingColors[p.rating - 1]} />)}
+            </Scatter>
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="grid grid-cols-3 text-[9px] text-slate-600 font-bold uppercase tracking-tighter text-center mt-2">
+        <span>← unterextrahiert</span>
+        <span className="text-emerald-500/70">Ziel {TARGET_EY.min}–{TARGET_EY.max}%</span>
+        <span>überextrahiert →</span>
+      </div>
+    </div>
+  );
+};
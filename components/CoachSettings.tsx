@@ -0,0 +1,92 @@
+import React from 'react';
+import { AiProviderKind, AiSettings } from '../types.ts';
+import { DEFAULT_MODEL, OPENAI_PRESETS, PROVIDER_LABEL } from '../services/aiProvider.ts';
+
+interface CoachSettingsProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_HINT: Record<AiProviderKind, string> = {
+  gemini: 'Websuche mit Quellen. Nutzt den API Key des aktiven Baristas.',
+  openai: 'OpenAI, Ollama, llama.cpp oder LM Studio. Die Rezeptsuche antwortet ohne Websuche aus dem Modellwissen.',
+  mock: 'Feste Beispielantworten ohne Netz und Key – zum Ausprobieren des Ablaufs.',
+};
+
+const inputClass = "w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700";
+const labelClass = "text-[9px] uppercase text-slate-500 font-bold tracking-widest";
+
+export const CoachSettings: React.FC<CoachSettingsProps> = ({ settings, onChange, onClose }) => {
+  const selectProvider = (provider: AiProviderKind) => {
+    onChange({ ...settings, provider, model: DEFAULT_MODEL[provider] });
+  };
+
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-2xl space-y-5 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white font-serif">Coach</h2>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(PROVIDER_LABEL) as AiProviderKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => selectProvider(kind)}
+            className={`p-3 rounded-2xl border text-xs font-bold transition-all ${settings.provider === kind ? 'bg-amber-500/10 border-amber-500/50 text-amber-500' : 'bg-white/5 border-white/5 text-slate-400'}`}
+          >
+            {PROVIDER_LABEL[kind]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-500 leading-relaxed">{PROVIDER_HINT[settings.provider]}</p>
+
+      {settings.provider === 'openai' && (
+        <div className="space-y-3">
+          <div className="flex gap-2 flex-wrap">
+            {OPENAI_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => onChange({ ...settings, baseUrl: preset.baseUrl, model: preset.model })}
+                className={`text-[10px] font-bold uppercase px-3 py-1 rounded-full ${settings.baseUrl === preset.baseUrl ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Server (Base URL)</label>
+            <input
+              type="url" placeholder="http://localhost:11434/v1"
+              className={`${inputClass} font-mono`}
+              value={settings.baseUrl}
+              onChange={e => onChange({ ...settings, baseUrl: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>API Key</label>
+            <input
+              type="password" placeholder="Für lokale Server leer lassen" autoComplete="off"
+              className={`${inputClass} font-mono`}
+              value={settings.apiKey || ''}
+              onChange={e => onChange({ ...settings, apiKey: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.provider !== 'mock' && (
+        <div className="space-y-1">
+          <label className={labelClass}>Modell</label>
+          <input
+            type="text" placeholder={DEFAULT_MODEL[settings.provider]}
+            className={`${inputClass} font-mono text-amber-500`}
+            value={settings.model}
+            onChange={e => onChange({ ...settings, model: e.target.value })}
+          />
+        </div>
+      )}
+    </section>
+  );
+};
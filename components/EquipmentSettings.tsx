@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { EquipmentProfile, TempControlType } from '../types.ts';
+import { TEMP_CONTROL_LABEL } from '../services/equipmentService.ts';
+
+interface EquipmentSettingsProps {
+  profiles: EquipmentProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onAdd: (profile: EquipmentProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = () => ({
+  machineName: '',
+  tempControl: 'pid-steps' as TempControlType,
+  tempSteps: '1, 2, 3',
+  tempMin: 88,
+  tempMax: 96,
+  basketSize: 18,
+  grinderName: '',
+  scaleMin: 0,
+  scaleMax: 10,
+  scaleStep: 0.1,
+  secondsPerStep: 1.5,
+});
+
+const inputClass = "w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700";
+const labelClass = "text-[9px] uppercase text-slate-500 font-bold tracking-widest";
+
+export const EquipmentSettings: React.FC<EquipmentSettingsProps> = ({ profiles, selectedId, onSelect, onAdd, onDelete, onClose }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.machineName || !draft.grinderName) return;
+    const steps = draft.tempSteps.split(',').map(s => s.trim()).filter(Boolean);
+    const profile: EquipmentProfile = {
+      id: Date.now().toString(),
+      name: `${draft.machineName} • ${draft.grinderName}`,
+      machine: {
+        name: draft.machineName,
+        tempControl: draft.tempControl,
+        tempSteps: draft.tempControl === 'continuous' ? undefined : steps,
+        tempRange: draft.tempControl === 'continuous' ? { min: draft.tempMin, max: draft.tempMax, step: 0.5 } : undefined,
+        basketSize: draft.basketSize,
+      },
+      grinder: {
+        name: draft.grinderName,
+        scaleMin: draft.scaleMin,
+        scaleMax: draft.scaleMax,
+        scaleStep: draft.scaleStep,
+        secondsPerStep: draft.secondsPerStep,
+      },
+    };
+    onAdd(profile);
+    onSelect(profile.id);
+    setDraft(emptyDraft());
+    setIsCreating(false);
+  };
+
+  const numberField = (key: keyof ReturnType<typeof emptyDraft>, label: string, step = '1') => (
+    <div className="space-y-1">
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number" step={step}
+        className={`${inputClass} font-mono text-amber-500`}
+        value={draft[key] as number}
+        onChange={e => setDraft({ ...draft, [key]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-2xl space-y-5 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white font-serif">Equipment</h2>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      <div className="space-y-2">
+        {profiles.map(p => (
+          <div
+            key={p.id}
+            onClick={() => onSelect(p.id)}
+            className={`flex justify-between items-center p-4 rounded-2xl border cursor-pointer transition-all ${p.id === selectedId ? 'bg-amber-500/10 border-amber-500/30' : 'bg-black/40 border-white/5'}`}
+          >
+            <div>
+              <p className={`text-sm font-bold ${p.id === selectedId ? 'text-amber-500' : 'text-white'}`}>{p.name}</p>
+              <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+                {TEMP_CONTROL_LABEL[p.machine.tempControl]} • {p.machine.basketSize}g Sieb • Skala {p.grinder.scaleMin}–{p.grinder.scaleMax}
+              </p>
+            </div>
+            {!p.builtIn && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(p.id); }}
+                className="text-slate-700 hover:text-red-500/50 transition-colors text-[10px] font-bold uppercase"
+              >
+                Entfernen
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isCreating ? (
+        <form onSubmit={handleSubmit} className="space-y-4 pt-2 border-t border-white/5">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>Maschine</label>
+              <input type="text" required placeholder="z.B. Bianca" className={inputClass} value={draft.machineName} onChange={e => setDraft({ ...draft, machineName: e.target.value })} />
+            </div>
+            {numberField('basketSize', 'Sieb (g)')}
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(TEMP_CONTROL_LABEL) as TempControlType[]).map(t => (
+              <button
+                key={t} type="button"
+                onClick={() => setDraft({ ...draft, tempControl: t, tempSteps: t === 'hx' ? 'Lang, Mittel, Kurz' : draft.tempSteps })}
+                className={`flex-1 px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${draft.tempControl === t ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}
+              >
+                {TEMP_CONTROL_LABEL[t]}
+              </button>
+            ))}
+          </div>
+          {draft.tempControl === 'continuous' ? (
+            <div className="grid grid-cols-2 gap-3">
+              {numberField('tempMin', 'Min °C', '0.5')}
+              {numberField('tempMax', 'Max °C', '0.5')}
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <label className={labelClass}>{draft.tempControl === 'hx' ? 'Flush-Varianten (kühl → heiß)' : 'Stufen (kühl → heiß)'}</label>
+              <input type="text" className={inputClass} value={draft.tempSteps} onChange={e => setDraft({ ...draft, tempSteps: e.target.value })} />
+            </div>
+          )}
+          <div className="space-y-1">
+            <label className={labelClass}>Mühle</label>
+            <input type="text" required placeholder="z.B. DF64" className={inputClass} value={draft.grinderName} onChange={e => setDraft({ ...draft, grinderName: e.target.value })} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('scaleMin', 'Skala min', '0.01')}
+            {numberField('scaleMax', 'Skala max', '0.01')}
+            {numberField('scaleStep', 'Schrittweite', '0.01')}
+            {numberField('secondsPerStep', 'Sek. pro Schritt', '0.1')}
+          </div>
+          <button type="submit" className="w-full bg-amber-500 active:scale-95 text-black font-bold py-4 rounded-2xl transition-all text-sm">Profil anlegen</button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsCreating(true)}
+          className="w-full bg-white/5 text-slate-400 font-bold py-4 rounded-2xl border border-white/5 transition-all active:scale-95 text-sm"
+        >
+          Eigenes Profil anlegen
+        </button>
+      )}
+    </section>
+  );
+};
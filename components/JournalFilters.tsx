@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import {
+  EMPTY_FILTER, JournalFilter, JournalPeriod, JournalSort, PERIOD_LABEL, RATIO_BANDS, RatioBand, SORT_LABEL, isFilterActive,
+} from '../services/journalFilterService.ts';
+
+interface JournalFiltersProps {
+  filter: JournalFilter;
+  onChange: (filter: JournalFilter) => void;
+  beans: string[];
+  tempSettings: string[];
+  formatTemp: (value: string) => string;
+}
+
+const selectClass = "bg-black border border-white/10 rounded-xl px-3 py-2 text-[11px] text-slate-300 outline-none focus:border-amber-500/50";
+
+export const JournalFilters: React.FC<JournalFiltersProps> = ({ filter, onChange, beans, tempSettings, formatTemp }) => {
+  const active = isFilterActive(filter);
+  const [expanded, setExpanded] = useState(active);
+  const update = (patch: Partial<JournalFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          placeholder="Bohne oder Notizen durchsuchen…"
+          value={filter.query}
+          onChange={e => update({ query: e.target.value })}
+          className="flex-1 bg-[#111] border border-white/5 rounded-2xl px-4 py-3 text-sm text-slate-200 outline-none focus:border-amber-500/50"
+        />
+        <select value={filter.sort} onChange={e => update({ sort: e.target.value as JournalSort })} className={selectClass}>
+          {(Object.keys(SORT_LABEL) as JournalSort[]).map(s => <option key={s} value={s}>{SORT_LABEL[s]}</option>)}
+        </select>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`px-3 rounded-2xl text-[10px] font-bold uppercase ${active ? 'bg-amber-500/10 text-amber-500' : 'bg-white/5 text-slate-500'}`}
+        >
+          Filter
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="bg-[#111] p-4 rounded-[1.5rem] border border-white/5 space-y-3 animate-in fade-in slide-in-from-top-4">
+          <div className="grid grid-cols-2 gap-2">
+            <select value={filter.bean} onChange={e => update({ bean: e.target.value })} className={selectClass}>
+              <option value="">Alle Bohnen</option>
+              {beans.map(b => <option key={b} value={b}>{b}</option>)}
+            </select>
+            <select value={filter.tempSetting} onChange={e => update({ tempSetting: e.target.value })} className={selectClass}>
+              <option value="">Alle Temperaturen</option>
+              {tempSettings.map(t => <option key={t} value={t}>{formatTemp(t)}</option>)}
+            </select>
+            <select value={filter.minRating} onChange={e => update({ minRating: Number(e.target.value) })} className={selectClass}>
+              <option value={0}>Jede Bewertung</option>
+              {[5, 4, 3, 2].map(r => <option key={r} value={r}>{r === 5 ? '5 Sterne' : `ab ${r} Sternen`}</option>)}
+            </select>
+            <select value={filter.ratio} onChange={e => update({ ratio: e.target.value as RatioBand | '' })} className={selectClass}>
+              <option value="">Jede Ratio</option>
+              {(Object.keys(RATIO_BANDS) as RatioBand[]).map(r => <option key={r} value={r}>{RATIO_BANDS[r].label}</option>)}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(PERIOD_LABEL) as JournalPeriod[]).map(p => (
+              <button
+                key={p}
+                onClick={() => update({ period: filter.period === p ? '' : p, from: '', to: '' })}
+                className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase ${filter.period === p ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500'}`}
+              >
+                {PERIOD_LABEL[p]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={filter.from} onChange={e => update({ from: e.target.value, period: '' })} className={selectClass} />
+            <input type="date" value={filter.to} onChange={e => update({ to: e.target.value, period: '' })} className={selectClass} />
+          </div>
+
+          {active && (
+            <button onClick={() => onChange({ ...EMPTY_FILTER, sort: filter.sort })} className="text-slate-500 text-[10px] font-bold uppercase tracking-widest">
+              Filter zurücksetzen
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { EquipmentProfile, EspressoShot } from '../types.ts';
+import { downloadFile, exportJournalCsv, exportJournalJson, ImportPlan, planImport } from '../services/exportService.ts';
+import { parseImportFile } from '../services/shotImportService.ts';
+
+interface JournalTransferProps {
+  shots: EspressoShot[];
+  equipmentProfiles: EquipmentProfile[];
+  profileName: string;
+  onImport: (shots: EspressoShot[]) => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+const fileStamp = () => new Date().toISOString().slice(0, 10);
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'journal';
+
+export const JournalTransfer: React.FC<JournalTransferProps> = ({ shots, equipmentProfiles, profileName, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const baseName = `baristapro-${slug(profileName)}-${fileStamp()}`;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setImportError(null);
+    try {
+      // Mehrere Dateien (z.B. einzelne Decent-Shots) werden zu einer Vorschau zusammengefasst
+      const results = await Promise.all(files.map(async file => parseImportFile(await file.text())));
+      setPlan(planImport(shots, {
+        shots: results.flatMap(r => r.shots),
+        dropped: results.reduce((sum, r) => sum + r.dropped, 0),
+        migratedFrom: null,
+      }));
+    } catch (err) {
+      console.error(err);
+      setPlan(null);
+      setImportError("Datei konnte nicht gelesen werden. Unterstützt werden BaristaPro-JSON, Beanconqueror, Decent (.shot) und Gaggiuino.");
+    }
+  };
+
+  const confirmImport = () => {
+    if (plan && plan.added.length > 0) onImport(plan.added);
+    setPlan(null);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-end px-2 mb-2">
+        <h2 className="text-xl font-bold font-serif italic text-white tracking-tight">Backup & Export</h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full"
+        >
+          {isOpen ? 'Schließen' : 'Öffnen'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="bg-[#111] p-5 rounded-[1.5rem] border border-white/5 space-y-4 animate-in fade-in slide-in-from-top-4">
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              disabled={shots.length === 0}
+              onClick={() => downloadFile(`${baseName}.json`, exportJournalJson(shots, profileName), 'application/json')}
+              className="bg-white/5 text-slate-300 font-bold py-3 rounded-xl text-[10px] uppercase tracking-widest disabled:opacity-30"
+            >
+              JSON
+            </button>
+            <button
+              disabled={shots.length === 0}
+              onClick={() => downloadFile(`${baseName}.csv`, exportJournalCsv(shots, equipmentProfiles), 'text/csv;charset=utf-8')}
+              className="bg-white/5 text-slate-300 font-bold py-3 rounded-xl text-[10px] uppercase tracking-widest disabled:opacity-30"
+            >
+              CSV
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="bg-amber-500/10 text-amber-500 font-bold py-3 rounded-xl text-[10px] uppercase tracking-widest"
+            >
+              Import
+            </button>
+            <input ref={fileInput} type="file" accept=".json,.shot,application/json" multiple className="hidden" onChange={handleFile} />
+          </div>
+          <p className="text-[10px] text-slate-600 leading-relaxed">
+            JSON enthält das komplette Journal inklusive Coach-Empfehlungen und lässt sich wieder importieren. CSV ist für Tabellenkalkulationen gedacht. Importiert werden außerdem Beanconqueror-Exporte, Decent-.shot-Dateien und Gaggiuino-Shots.
+          </p>
+
+          {importError && <p className="text-red-500 text-xs font-bold">{importError}</p>}
+
+          {plan && (
+            <div className="bg-black/40 border border-white/5 rounded-2xl p-4 space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                  { l: 'Neu', v: plan.added.length, c: 'text-emerald-400' },
+                  { l: 'Duplikate', v: plan.duplicates.length, c: 'text-slate-400' },
+                  { l: 'Ungültig', v: plan.dropped, c: plan.dropped > 0 ? 'text-red-400' : 'text-slate-400' },
+                ].map(t => (
+                  <div key={t.l}>
+                    <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                    <p className={`text-lg font-mono font-bold ${t.c}`}>{t.v}</p>
+                  </div>
+                ))}
+              </div>
+              {plan.added.length > 0 && (
+                <ul className="space-y-1">
+                  {plan.added.slice(0, PREVIEW_LIMIT).map(shot => (
+                    <li key={shot.id} className="flex justify-between text-[11px] text-slate-400">
+                      <span className="truncate pr-3">{shot.beanName}</span>
+                      <span className="font-mono text-slate-600 shrink-0">
+                        {new Date(shot.timestamp).toLocaleDateString('de-DE')} • {shot.dose}/{shot.yield}g • {shot.time}s
+                      </span>
+                    </li>
+                  ))}
+                  {plan.added.length > PREVIEW_LIMIT && (
+                    <li className="text-[10px] text-slate-600">… und {plan.added.length - PREVIEW_LIMIT} weitere</li>
+                  )}
+                </ul>
+              )}
+              {plan.duplicates.length > 0 && (
+                <p className="text-[10px] text-slate-600">Shots mit bereits vorhandener ID werden übersprungen.</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPlan(null)}
+                  className="flex-1 bg-white/5 text-slate-400 font-bold py-3 rounded-xl text-xs"
+                >
+                  Abbrechen
+                </button>
+                <button
+                  disabled={plan.added.length === 0}
+                  onClick={confirmImport}
+                  className="flex-1 bg-amber-500 text-black font-bold py-3 rounded-xl text-xs disabled:opacity-30"
+                >
+                  {plan.added.length} Shots übernehmen
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { BaristaProfile } from '../types.ts';
+import { getInitials } from '../services/profileService.ts';
+
+interface ProfileSwitcherProps {
+  profiles: BaristaProfile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onUpdate: (profile: BaristaProfile) => void;
+  onDelete: (id: string) => void;
+  onOpenTeam: () => void;
+  onOpenCoach: () => void;
+}
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeId, onSwitch, onAdd, onUpdate, onDelete, onOpenTeam, onOpenCoach }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  // Löschen entfernt Journal und Papierkorb endgültig, daher erst nachfragen
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onAdd(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setPendingDeleteId(null); }}
+        className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 text-amber-500 text-xs font-bold flex items-center justify-center active:scale-95 transition-transform"
+        title={active.name}
+      >
+        {getInitials(active.name)}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-72 bg-[#111] border border-white/10 rounded-[1.5rem] p-4 shadow-2xl space-y-4 animate-in fade-in slide-in-from-top-4">
+          <div className="space-y-2">
+            {profiles.map(p => (
+              <div
+                key={p.id}
+                onClick={() => { onSwitch(p.id); setIsOpen(false); }}
+                className={`flex items-center gap-3 p-2 rounded-xl cursor-pointer transition-all ${p.id === activeId ? 'bg-amber-500/10' : 'hover:bg-white/5'}`}
+              >
+                <span className={`w-8 h-8 rounded-lg flex items-center justify-center text-[10px] font-bold ${p.id === activeId ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400'}`}>
+                  {getInitials(p.name)}
+                </span>
+                <span className={`flex-1 text-sm font-bold truncate ${p.id === activeId ? 'text-amber-500' : 'text-white'}`}>{p.name}</span>
+                {p.id !== activeId && profiles.length > 1 && pendingDeleteId !== p.id && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setPendingDeleteId(p.id); }}
+                    className="text-slate-700 hover:text-red-500/50 transition-colors text-[9px] font-bold uppercase"
+                  >
+                    Entfernen
+                  </button>
+                )}
+                {pendingDeleteId === p.id && (
+                  <span className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => setPendingDeleteId(null)}
+                      className="text-slate-500 text-[9px] font-bold uppercase"
+                    >
+                      Abbrechen
+                    </button>
+                    <button
+                      onClick={() => { onDelete(p.id); setPendingDeleteId(null); }}
+                      className="text-red-500 text-[9px] font-bold uppercase"
+                    >
+                      Löschen
+                    </button>
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {pendingDeleteId && (
+            <p className="text-[11px] text-red-400/80 leading-relaxed px-1">
+              Journal und Papierkorb von {profiles.find(p => p.id === pendingDeleteId)?.name} werden endgültig gelöscht.
+            </p>
+          )}
+
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="text" placeholder="Neuer Barista..."
+              className="flex-1 min-w-0 bg-[#1a1a1a] border border-white/10 rounded-xl px-3 py-2 text-sm text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+            />
+            <button type="submit" className="bg-amber-500 text-black px-3 rounded-xl font-bold text-xs active:scale-95 transition-all">+</button>
+          </form>
+
+          <div className="space-y-2 pt-3 border-t border-white/5">
+            <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">API Key von {active.name}</label>
+            <input
+              type="password" placeholder="Gemini API Key (optional)" autoComplete="off"
+              className="w-full bg-[#1a1a1a] border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700"
+              value={active.apiKey || ''}
+              onChange={e => onUpdate({ ...active, apiKey: e.target.value || undefined })}
+            />
+          </div>
+
+          <button
+            onClick={() => { onOpenTeam(); setIsOpen(false); }}
+            className="w-full bg-white/5 text-slate-300 font-bold py-3 rounded-xl border border-white/5 transition-all active:scale-95 text-xs uppercase tracking-widest"
+          >
+            Team-Vergleich
+          </button>
+          <button
+            onClick={() => { onOpenCoach(); setIsOpen(false); }}
+            className="w-full bg-white/5 text-slate-300 font-bold py-3 rounded-xl border border-white/5 transition-all active:scale-95 text-xs uppercase tracking-widest"
+          >
+            Coach-Einstellungen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
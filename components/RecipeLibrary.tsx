@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { EquipmentProfile, EspressoShot, Recipe, RecipeSource } from '../types.ts';
+import { formatTempSetting, getDefaultTempSetting, getEquipment, getTempOptions } from '../services/equipmentService.ts';
+import { createRecipe, DEFAULT_RECIPE, getRecipeStats, sortRecipesForBean } from '../services/recipeService.ts';
+
+interface RecipeLibraryProps {
+  recipes: Recipe[];
+  shots: EspressoShot[]; // Für die Auswertung je Rezept
+  beans: string[]; // Vorschläge für das Bohnenfeld
+  equipment: EquipmentProfile; // Aktuelles Setup für neue Rezepte
+  equipmentProfiles: EquipmentProfile[];
+  onAdd: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  onStart: (recipe: Recipe) => void;
+}
+
+const SOURCE_LABEL: Record<RecipeSource, string> = {
+  manual: 'Eigenes',
+  search: 'Websuche',
+  shot: 'Aus Shot',
+};
+
+const FLAVOR_FIELDS = [
+  { k: 'sourness', l: 'Säure' },
+  { k: 'bitterness', l: 'Bitter' },
+  { k: 'sweetness', l: 'Süße' },
+  { k: 'body', l: 'Körper' },
+  { k: 'overall', l: 'Qualität' },
+] as const;
+
+const inputClass = "w-full bg-[#1a1a1a] border border-white/10 rounded-xl p-3 text-sm text-white outline-none focus:border-amber-500/50 placeholder:text-slate-700";
+
+const emptyRecipe = (equipment: EquipmentProfile) => ({
+  name: '',
+  beanName: '',
+  ...DEFAULT_RECIPE,
+  tempSetting: getDefaultTempSetting(equipment.machine),
+  grindSetting: '',
+  preinfusion: undefined as number | undefined,
+  targetFlavor: { sourness: 3, bitterness: 3, body: 3, sweetness: 4, overall: 4 },
+  notes: '',
+});
+
+export const RecipeLibrary: React.FC<RecipeLibraryProps> = ({
+  recipes, shots, beans, equipment, equipmentProfiles, onAdd, onDelete, onStart,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(() => emptyRecipe(equipment));
+  const tempOptions = getTempOptions(equipment.machine);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.beanName) return;
+    onAdd(createRecipe({
+      ...draft,
+      name: draft.name || draft.beanName,
+      timeMax: Math.max(draft.timeMin, draft.timeMax),
+      equipmentId: equipment.id,
+      source: 'manual',
+    }));
+    setDraft(emptyRecipe(equipment));
+    setIsOpen(false);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-end px-2 mb-2">
+        <h2 className="text-xl font-bold font-serif italic text-white tracking-tight">Rezepte</h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full"
+        >
+          {isOpen ? 'Schließen' : 'Neues Rezept'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="bg-[#111] p-5 rounded-[1.5rem] border border-white/5 space-y-3 animate-in fade-in slide-in-from-top-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Bohne</label>
+              <input type="text" required list="recipe-beans" placeholder="z.B. Yirgacheffe" className={inputClass} value={draft.beanName} onChange={e => setDraft({ ...draft, beanName: e.target.value })} />
+              <datalist id="recipe-beans">
+                {beans.map(b => <option key={b} value={b} />)}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Name</label>
+              <input type="text" placeholder="z.B. Süß & rund" className={inputClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            {([
+              { k: 'dose', l: 'In (g)', step: '0.1' },
+              { k: 'yield', l: 'Out (g)', step: '0.1' },
+              { k: 'timeMin', l: 'Zeit ab (s)', step: '1' },
+              { k: 'timeMax', l: 'Zeit bis (s)', step: '1' },
+            ] as const).map(f => (
+              <div key={f.k} className="space-y-1">
+                <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">{f.l}</label>
+                <input type="number" min="0" step={f.step} className={`${inputClass} font-mono text-amber-500`} value={draft[f.k]} onChange={e => setDraft({ ...draft, [f.k]: Number(e.target.value) })} />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Temperatur</label>
+              {tempOptions ? (
+                <select className={inputClass} value={draft.tempSetting} onChange={e => setDraft({ ...draft, tempSetting: e.target.value })}>
+                  {tempOptions.map(o => <option key={o} value={o}>{formatTempSetting(equipment.machine, o)}</option>)}
+                </select>
+              ) : (
+                <input type="number" step={equipment.machine.tempRange?.step ?? 0.5} className={`${inputClass} font-mono text-amber-500`} value={draft.tempSetting} onChange={e => setDraft({ ...draft, tempSetting: e.target.value })} />
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Mahlgrad</label>
+              <input type="text" placeholder={`${equipment.grinder.scaleMin}–${equipment.grinder.scaleMax}`} className={`${inputClass} font-mono text-amber-500`} value={draft.grindSetting} onChange={e => setDraft({ ...draft, grindSetting: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Erster Tropfen (s)</label>
+              <input type="number" min="0" placeholder="optional" className={`${inputClass} font-mono text-amber-500`} value={draft.preinfusion ?? ''} onChange={e => setDraft({ ...draft, preinfusion: e.target.value ? Number(e.target.value) : undefined })} />
+            </div>
+          </div>
+
+          <div className="p-4 bg-white/5 rounded-2xl space-y-3">
+            <h3 className="text-[9px] font-bold uppercase text-slate-500 tracking-widest">Zielgeschmack</h3>
+            {FLAVOR_FIELDS.map(f => (
+              <div key={f.k} className="flex items-center gap-4">
+                <span className="text-[10px] text-slate-400 w-12 font-medium">{f.l}</span>
+                <input type="range" min="1" max="5" className="flex-1 accent-amber-500 h-1.5" value={draft.targetFlavor[f.k]} onChange={e => setDraft({ ...draft, targetFlavor: { ...draft.targetFlavor, [f.k]: Number(e.target.value) } })} />
+                <span className="text-xs font-bold text-amber-500 w-4">{draft.targetFlavor[f.k]}</span>
+              </div>
+            ))}
+          </div>
+
+          <textarea placeholder="Notizen" rows={2} className={inputClass} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+          <button type="submit" className="w-full bg-amber-500 active:scale-95 text-black font-bold py-4 rounded-2xl transition-all text-sm">Rezept speichern</button>
+        </form>
+      )}
+
+      {recipes.length === 0 ? (
+        <p className="text-slate-600 text-xs px-2">Noch keine Rezepte. Speichere ein Suchergebnis oder einen gelungenen Shot als Rezept.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {sortRecipesForBean(recipes, '').map(recipe => {
+            const stats = getRecipeStats(recipe, shots);
+            const recipeEquipment = getEquipment(equipmentProfiles, recipe.equipmentId);
+            return (
+              <div key={recipe.id} className="bg-[#111] border border-white/5 p-4 rounded-[1.5rem] space-y-3">
+                <div className="flex justify-between items-start">
+                  <div className="max-w-[75%]">
+                    <h3 className="text-sm font-bold text-white truncate">{recipe.name}</h3>
+                    <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest truncate">
+                      {recipe.beanName} • {SOURCE_LABEL[recipe.source]}
+                    </p>
+                  </div>
+                  <button onClick={() => onDelete(recipe.id)} className="text-slate-700 hover:text-red-500/50 transition-colors text-[10px] font-bold uppercase">
+                    Entfernen
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    { l: 'In/Out', v: `${recipe.dose}/${recipe.yield}g` },
+                    { l: 'Zeit', v: `${recipe.timeMin}–${recipe.timeMax}s` },
+                    { l: 'Mahlgrad', v: recipe.grindSetting || 'n.a.' },
+                    { l: 'Temp', v: formatTempSetting(recipeEquipment.machine, recipe.tempSetting) },
+                  ].map(t => (
+                    <div key={t.l} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                      <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                      <p className="text-[11px] font-mono text-slate-200 truncate">{t.v}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] text-slate-500 font-bold uppercase">
+                    {stats.shots > 0 ? `${stats.shots} Shots • Ø ${stats.avgOverall}/5` : 'Noch nicht gezogen'}
+                  </span>
+                  <button
+                    onClick={() => onStart(recipe)}
+                    className="bg-amber-500 text-black text-[10px] font-bold uppercase px-3 py-1.5 rounded-full active:scale-95 transition-transform"
+                  >
+                    Shot starten
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { DialInSession } from '../types.ts';
+import { getSessionDeltas } from '../services/sessionService.ts';
+
+interface SessionPanelProps {
+  sessions: DialInSession[];
+  onToggleLock: (shotId: string) => void;
+}
+
+const Delta: React.FC<{ value: number }> = ({ value }) => {
+  if (value === 0) return <span className="text-slate-600">±0</span>;
+  return (
+    <span className={value > 0 ? 'text-emerald-400' : 'text-red-400'}>
+      {value > 0 ? '+' : ''}{value}
+    </span>
+  );
+};
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({ sessions, onToggleLock }) => {
+  // undefined = noch keine Auswahl, dann ist die neueste Session geöffnet
+  const [openId, setOpenId] = useState<string | null | undefined>(undefined);
+  const activeId = openId === undefined ? sessions[0]?.id : openId;
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-end px-2 mb-2">
+        <h2 className="text-xl font-bold font-serif italic text-white tracking-tight">Dial-In Sessions</h2>
+        <span className="text-[9px] bg-white/5 px-3 py-1 rounded-full text-slate-500 font-bold uppercase">{sessions.length} Sessions</span>
+      </div>
+      <div className="space-y-3">
+        {sessions.map(session => {
+          const isOpen = activeId === session.id;
+          const deltas = getSessionDeltas(session);
+          const first = session.shots[0];
+          const date = new Date(first.timestamp).toLocaleDateString('de-DE', { day: '2-digit', month: 'short' });
+          return (
+            <div key={session.id} className="bg-[#111] border border-white/5 rounded-[1.5rem] overflow-hidden">
+              <button
+                onClick={() => setOpenId(isOpen ? null : session.id)}
+                className="w-full flex justify-between items-center p-5 text-left"
+              >
+                <div className="max-w-[75%]">
+                  <h3 className="text-sm font-bold text-white truncate">{session.beanName}</h3>
+                  <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+                    {date} • {session.shots.length} {session.shots.length === 1 ? 'Shot' : 'Shots'}
+                  </p>
+                </div>
+                {session.lockedShot ? (
+                  <span className="text-[9px] font-bold uppercase px-2 py-0.5 rounded-full text-emerald-400 bg-emerald-400/10">Locked-In</span>
+                ) : (
+                  <span className="text-[9px] font-bold uppercase px-2 py-0.5 rounded-full text-amber-500 bg-amber-500/10">Läuft</span>
+                )}
+              </button>
+
+              {isOpen && (
+                <div className="px-5 pb-5 space-y-2 animate-in fade-in">
+                  <div className="grid grid-cols-[2rem_1fr_1fr_1fr_auto] gap-2 text-[8px] text-slate-600 uppercase font-bold tracking-tighter px-1">
+                    <span>#</span><span>Out</span><span>Zeit</span><span>Qualität</span><span></span>
+                  </div>
+                  {session.shots.map((shot, i) => {
+                    const delta = deltas[i];
+                    return (
+                      <div
+                        key={shot.id}
+                        className={`grid grid-cols-[2rem_1fr_1fr_1fr_auto] gap-2 items-center text-xs font-mono p-2 rounded-xl ${shot.lockedIn ? 'bg-emerald-500/10 border border-emerald-500/20' : 'bg-black/40 border border-white/5'}`}
+                      >
+                        <span className="text-slate-500">{i + 1}</span>
+                        <span className="text-slate-200">
+                          {shot.yield}g {delta && <span className="text-[9px]"><Delta value={delta.yield} /></span>}
+                        </span>
+                        <span className="text-slate-200">
+                          {shot.time}s {delta && <span className="text-[9px]"><Delta value={delta.time} /></span>}
+                        </span>
+                        <span className="text-amber-500">
+                          {shot.flavorProfile.overall}/5 {delta && <span className="text-[9px]"><Delta value={delta.overall} /></span>}
+                        </span>
+                        <button
+                          onClick={() => onToggleLock(shot.id)}
+                          className={`text-[9px] font-bold uppercase px-2 py-1 rounded-lg transition-all ${shot.lockedIn ? 'bg-emerald-500 text-black' : 'bg-white/5 text-slate-500'}`}
+                        >
+                          {shot.lockedIn ? 'Locked' : 'Lock'}
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {session.shots.some(s => s.advice) && (
+                    <div className="pt-3 space-y-2">
+                      {session.shots.map((shot, i) => shot.advice && (
+                        <p key={shot.id} className="text-[11px] text-slate-400 leading-relaxed border-l border-amber-500/30 pl-3">
+                          <span className="text-amber-500/80 font-bold mr-2">#{i + 1}</span>{shot.advice.adjustment}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
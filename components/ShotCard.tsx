@@ -1,25 +1,53 @@
 
 import React from 'react';
-import { EspressoShot } from '../types.ts';
+import { EspressoShot, EquipmentProfile } from '../types.ts';
+import { daysOffRoast } from '../services/beanService.ts';
+import { BUILT_IN_PROFILES, formatTempSetting } from '../services/equipmentService.ts';
+import { getExtractionYield } from '../services/extractionService.ts';
 
 interface ShotCardProps {
   shot: EspressoShot;
+  equipment?: EquipmentProfile;
   onDelete?: (id: string) => void;
+  onSelect?: (id: string) => void;
 }
 
-export const ShotCard: React.FC<ShotCardProps> = ({ shot, onDelete }) => {
-  const ratio = (shot.yield / shot.dose).toFixed(1);
+export const ShotCard: React.FC<ShotCardProps> = ({ shot, equipment = BUILT_IN_PROFILES[0], onDelete, onSelect }) => {
+  const ratio = shot.dose > 0 ? (shot.yield / shot.dose).toFixed(1) : '–';
   const date = new Date(shot.timestamp).toLocaleDateString('de-DE', { day: '2-digit', month: 'short' });
+  const restDays = daysOffRoast(shot.roastDate, shot.timestamp);
+  const ey = getExtractionYield(shot);
 
   return (
-    <div className="bg-[#111] border border-white/5 p-5 rounded-[1.5rem] hover:bg-[#161616] transition-all relative overflow-hidden active:bg-black group">
+    <div
+      onClick={() => onSelect?.(shot.id)}
+      className={`bg-[#111] border border-white/5 p-5 rounded-[1.5rem] hover:bg-[#161616] transition-all relative overflow-hidden active:bg-black group ${onSelect ? 'cursor-pointer' : ''}`}
+    >
       <div className="flex justify-between items-start mb-4">
         <div className="max-w-[80%]">
           <h3 className="text-base font-bold text-white truncate leading-tight mb-1">{shot.beanName}</h3>
           <div className="flex items-center gap-2">
             <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">{date}</span>
             <span className="w-1 h-1 bg-slate-700 rounded-full"></span>
-            <span className="text-[9px] text-amber-500/80 font-bold uppercase tracking-widest">PID {shot.maraXTempSetting}</span>
+            <span className="text-[9px] text-amber-500/80 font-bold uppercase tracking-widest">{!shot.tempSetting && shot.temperature > 0 ? `${shot.temperature}°C` : formatTempSetting(equipment.machine, shot.tempSetting)}</span>
+            {shot.curve && (
+              <>
+                <span className="w-1 h-1 bg-slate-700 rounded-full"></span>
+                <span className="text-[9px] text-sky-400 font-bold uppercase tracking-widest">Kurve</span>
+              </>
+            )}
+            {shot.lockedIn && (
+              <>
+                <span className="w-1 h-1 bg-slate-700 rounded-full"></span>
+                <span className="text-[9px] text-emerald-400 font-bold uppercase tracking-widest">Locked-In</span>
+              </>
+            )}
+            {restDays !== null && (
+              <>
+                <span className="w-1 h-1 bg-slate-700 rounded-full"></span>
+                <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Tag {restDays}</span>
+              </>
+            )}
           </div>
         </div>
         {onDelete && (
@@ -38,10 +66,16 @@ export const ShotCard: React.FC<ShotCardProps> = ({ shot, onDelete }) => {
         <div className="bg-black/40 rounded-xl p-3 text-center border border-white/5">
           <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">In / Out</p>
           <p className="text-xs font-mono text-slate-200">{shot.dose} / {shot.yield}g</p>
+          {ey !== null && (
+            <p className="text-[8px] text-emerald-400/80 font-bold uppercase tracking-tighter mt-1">EY {ey}%</p>
+          )}
         </div>
         <div className="bg-black/40 rounded-xl p-3 text-center border border-white/5">
           <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">Zeit</p>
           <p className="text-xs font-mono text-slate-200">{shot.time}s</p>
+          {shot.timing && (
+            <p className="text-[8px] text-sky-400/80 font-bold uppercase tracking-tighter mt-1">1. Tropfen {shot.timing.preinfusion}s</p>
+          )}
         </div>
         <div className="bg-black/40 rounded-xl p-3 text-center border border-white/5">
           <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">Mahlgrad</p>
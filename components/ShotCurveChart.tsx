@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ShotCurvePoint } from '../types.ts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+type CurveMetric = Exclude<keyof ShotCurvePoint, 't'>;
+
+interface ShotCurveChartProps {
+  curve: ShotCurvePoint[];
+  compareCurve?: ShotCurvePoint[]; // Zweiter Shot, gestrichelt überlagert
+  label?: string;
+  compareLabel?: string;
+}
+
+// Gewicht auf eigener Achse, Druck und Fluss teilen sich 0–12, Temperatur bekommt eine unsichtbare Achse
+const METRICS: { key: CurveMetric; label: string; unit: string; color: string; axis: string }[] = [
+  { key: 'weight', label: 'Gewicht', unit: 'g', color: '#f59e0b', axis: 'weight' },
+  { key: 'flow', label: 'Fluss', unit: 'g/s', color: '#38bdf8', axis: 'bar' },
+  { key: 'pressure', label: 'Druck', unit: 'bar', color: '#10b981', axis: 'bar' },
+  { key: 'temperature', label: 'Temp', unit: '°C', color: '#f87171', axis: 'temp' },
+];
+
+const hasMetric = (curve: ShotCurvePoint[] | undefined, key: CurveMetric) => !!curve?.some(p => p[key] !== undefined);
+
+export const ShotCurveChart: React.FC<ShotCurveChartProps> = ({ curve, compareCurve, label = 'Shot', compareLabel = 'Vergleich' }) => {
+  const available = METRICS.filter(m => hasMetric(curve, m.key) || hasMetric(compareCurve, m.key));
+  const [hidden, setHidden] = useState<CurveMetric[]>(['temperature']);
+  const visible = available.filter(m => !hidden.includes(m.key));
+
+  const toggle = (key: CurveMetric) => {
+    setHidden(hidden.includes(key) ? hidden.filter(k => k !== key) : [...hidden, key]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {available.map(m => (
+          <button
+            key={m.key}
+            onClick={() => toggle(m.key)}
+            className={`px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest transition-all ${hidden.includes(m.key) ? 'bg-white/5 text-slate-600' : 'bg-white/10'}`}
+            style={hidden.includes(m.key) ? undefined : { color: m.color }}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <div className="h-56 w-full -ml-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart>
+            <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="t" type="number" domain={[0, 'dataMax']} stroke="#334155" fontSize={8} tickLine={false} unit="s" allowDuplicatedCategory={false} />
+            <YAxis yAxisId="weight" stroke="#334155" fontSize={8} axisLine={false} tickLine={false} />
+            <YAxis yAxisId="bar" orientation="right" domain={[0, 12]} stroke="#334155" fontSize={8} axisLine={false} tickLine={false} />
+            <YAxis yAxisId="temp" hide domain={['dataMin - 2', 'dataMax + 2']} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#000', border: '1px solid #333', borderRadius: '12px', fontSize: '10px' }}
+              labelFormatter={(t) => `${t}s`}
+            />
+            {visible.map(m => (
+              <Line
+                key={m.key}
+                data={curve}
+                yAxisId={m.axis}
+                dataKey={m.key}
+                name={`${m.label} (${label})`}
+                unit={` ${m.unit}`}
+                type="monotone"
+                stroke={m.color}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+            {compareCurve && visible.map(m => (
+              <Line
+                key={`compare-${m.key}`}
+                data={compareCurve}
+                yAxisId={m.axis}
+                dataKey={m.key}
+                name={`${m.label} (${compareLabel})`}
+                unit={` ${m.unit}`}
+                type="monotone"
+                stroke={m.color}
+                strokeOpacity={0.5}
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {compareCurve && (
+        <p className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">
+          Durchgezogen: {label} • Gestrichelt: {compareLabel}
+        </p>
+      )}
+    </div>
+  );
+};
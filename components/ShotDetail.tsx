@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { EquipmentProfile, EspressoShot, Recipe } from '../types.ts';
+import { formatTempSetting, getEquipment, getTempOptions } from '../services/equipmentService.ts';
+import { daysOffRoast } from '../services/beanService.ts';
+import { isSameBean } from '../services/sessionService.ts';
+import { applyShotEdit, FIELD_LABEL, ShotDraft, toDraft } from '../services/shotEditService.ts';
+import { EXTRACTION_LABEL, getExtractionReading, STRENGTH_LABEL } from '../services/extractionService.ts';
+import { compareShotToRecipe, DeviationStatus } from '../services/recipeService.ts';
+import { ShotCurveChart } from './ShotCurveChart.tsx';
+
+interface ShotDetailProps {
+  shot: EspressoShot;
+  shots: EspressoShot[]; // Kandidaten für den Kurvenvergleich
+  equipmentProfiles: EquipmentProfile[];
+  onSave: (shot: EspressoShot) => void;
+  onClone: (shot: EspressoShot) => void;
+  recipe?: Recipe; // Rezept, nach dem der Shot gezogen wurde
+  onSaveRecipe: (shot: EspressoShot) => void;
+  onClose: () => void;
+}
+
+const DEVIATION_STYLE: Record<DeviationStatus, { label: string; className: string }> = {
+  hit: { label: 'Getroffen', className: 'text-emerald-400' },
+  low: { label: 'Darunter', className: 'text-sky-400' },
+  high: { label: 'Darüber', className: 'text-red-400' },
+  changed: { label: 'Abweichend', className: 'text-amber-500' },
+};
+
+const FLAVOR_FIELDS: { k: keyof EspressoShot['flavorProfile']; l: string }[] = [
+  { k: 'sourness', l: 'Säure' },
+  { k: 'bitterness', l: 'Bitter' },
+  { k: 'sweetness', l: 'Süße' },
+  { k: 'body', l: 'Körper' },
+  { k: 'overall', l: 'Qualität' },
+];
+
+const IMPORT_LABEL: Record<NonNullable<EspressoShot['importSource']>, string> = {
+  beanconqueror: 'Beanconqueror',
+  decent: 'Decent',
+  gaggiuino: 'Gaggiuino',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('de-DE', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const inputClass = "w-full bg-black border border-white/10 rounded-xl px-3 py-2 text-sm text-amber-500 font-mono outline-none focus:border-amber-500/50";
+
+export const ShotDetail: React.FC<ShotDetailProps> = ({ shot, shots, equipmentProfiles, onSave, onClone, recipe, onSaveRecipe, onClose }) => {
+  const [compareId, setCompareId] = useState<string>('');
+  const [recipeSaved, setRecipeSaved] = useState(false);
+  const [draft, setDraft] = useState<ShotDraft | null>(null);
+  const equipment = getEquipment(equipmentProfiles, shot.equipmentId);
+  const tempOptions = getTempOptions(equipment.machine);
+  const restDays = daysOffRoast(shot.roastDate, shot.timestamp);
+  const reading = getExtractionReading(shot);
+  // Gleiche Bohne zuerst, sonst chronologisch wie im Journal
+  const candidates = shots
+    .filter(s => s.id !== shot.id && s.curve)
+    .sort((a, b) => Number(isSameBean(b, shot)) - Number(isSameBean(a, shot)));
+  const compareShot = candidates.find(s => s.id === compareId);
+
+  const saveDraft = () => {
+    if (draft) onSave(applyShotEdit(shot, draft));
+    setDraft(null);
+  };
+
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-2xl space-y-5 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-start">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white font-serif truncate">{shot.beanName || 'Unbenannter Shot'}</h2>
+          <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {formatDate(shot.timestamp)} • {equipment.name}
+            {shot.importSource && ` • Import ${IMPORT_LABEL[shot.importSource]}`}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      {draft ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 space-y-1">
+              <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Bohne</span>
+              <input className={inputClass} value={draft.beanName} onChange={e => setDraft({ ...draft, beanName: e.target.value })} />
+            </label>
+            {([
+              { k: 'dose', l: 'In (g)', step: '0.1' },
+              { k: 'yield', l: 'Out (g)', step: '0.1' },
+              { k: 'time', l: 'Zeit (s)', step: '1' },
+            ] as const).map(f => (
+              <label key={f.k} className="space-y-1">
+                <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">{f.l}</span>
+                <input type="number" step={f.step} className={inputClass} value={draft[f.k]} onChange={e => setDraft({ ...draft, [f.k]: Number(e.target.value) })} />
+              </label>
+            ))}
+            <label className="space-y-1">
+              <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Mahlgrad</span>
+              <input className={inputClass} value={draft.grindSetting} onChange={e => setDraft({ ...draft, grindSetting: e.target.value })} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Temperatur</span>
+              {tempOptions ? (
+                <select className={inputClass} value={draft.tempSetting} onChange={e => setDraft({ ...draft, tempSetting: e.target.value })}>
+                  {!tempOptions.includes(draft.tempSetting) && <option value={draft.tempSetting}>{draft.tempSetting || 'n.a.'}</option>}
+                  {tempOptions.map(o => <option key={o} value={o}>{formatTempSetting(equipment.machine, o)}</option>)}
+                </select>
+              ) : (
+                <input type="number" step={equipment.machine.tempRange?.step || 0.5} className={inputClass} value={draft.tempSetting} onChange={e => setDraft({ ...draft, tempSetting: e.target.value })} />
+              )}
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">TDS (%)</span>
+              <input type="number" step="0.01" min="0" className={inputClass} value={draft.tds ?? ''} onChange={e => setDraft({ ...draft, tds: e.target.value ? Number(e.target.value) : undefined })} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] uppercase text-slate-500 font-bold tracking-widest">Röstdatum</span>
+              <input type="date" className={inputClass} value={draft.roastDate} onChange={e => setDraft({ ...draft, roastDate: e.target.value })} />
+            </label>
+          </div>
+          <div className="space-y-3">
+            {FLAVOR_FIELDS.map(f => (
+              <div key={f.k} className="flex items-center gap-4">
+                <span className="text-[10px] text-slate-400 w-12 font-medium">{f.l}</span>
+                <input
+                  type="range" min="1" max="5"
+                  className="flex-1 accent-amber-500 h-1.5"
+                  value={draft.flavorProfile[f.k]}
+                  onChange={e => setDraft({ ...draft, flavorProfile: { ...draft.flavorProfile, [f.k]: Number(e.target.value) } })}
+                />
+                <span className="text-xs font-bold text-amber-500 w-4">{draft.flavorProfile[f.k]}</span>
+              </div>
+            ))}
+          </div>
+          <textarea
+            rows={3}
+            placeholder="Notizen"
+            className="w-full bg-black border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-300 outline-none focus:border-amber-500/50"
+            value={draft.notes}
+            onChange={e => setDraft({ ...draft, notes: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(null)} className="flex-1 bg-white/5 text-slate-400 font-bold py-3 rounded-xl text-xs">Abbrechen</button>
+            <button onClick={saveDraft} className="flex-1 bg-amber-500 text-black font-bold py-3 rounded-xl text-xs">Änderungen speichern</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-5 gap-2 text-center">
+            {[
+              { l: 'In/Out', v: `${shot.dose}/${shot.yield}g` },
+              { l: 'Ratio', v: shot.dose > 0 ? `1:${(shot.yield / shot.dose).toFixed(1)}` : 'n.a.' },
+              { l: 'Zeit', v: `${shot.time}s` },
+              { l: 'Mahlgrad', v: shot.grindSetting || 'n.a.' },
+              { l: 'Temp', v: !shot.tempSetting && shot.temperature > 0 ? `${shot.temperature}°C` : formatTempSetting(equipment.machine, shot.tempSetting) },
+            ].map(t => (
+              <div key={t.l} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                <p className="text-[11px] font-mono text-slate-200 truncate">{t.v}</p>
+              </div>
+            ))}
+          </div>
+
+          {shot.timing && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                { l: 'Kontaktzeit', v: `${shot.timing.total}s` },
+                { l: 'Erster Tropfen', v: `${shot.timing.preinfusion}s` },
+                { l: 'Extraktion', v: `${shot.timing.extraction}s` },
+              ].map(t => (
+                <div key={t.l} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                  <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                  <p className="text-[11px] font-mono text-sky-400/80">{t.v}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {reading && (
+            <div className="grid grid-cols-2 gap-2 text-center">
+              {[
+                { l: 'TDS', v: `${reading.tds}%`, s: STRENGTH_LABEL[reading.strength] },
+                { l: 'Extraktion', v: `${reading.ey}%`, s: EXTRACTION_LABEL[reading.extraction] },
+              ].map(t => (
+                <div key={t.l} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                  <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                  <p className="text-[11px] font-mono text-emerald-400/80">{t.v}</p>
+                  <p className="text-[8px] text-slate-500 uppercase font-bold tracking-tighter">{t.s}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 text-[9px] font-bold uppercase tracking-widest">
+            <span className="px-2 py-1 rounded-full bg-white/5 text-slate-400">Röstdatum {shot.roastDate || 'n.a.'}{restDays !== null ? ` • Tag ${restDays}` : ''}</span>
+            {shot.lockedIn && <span className="px-2 py-1 rounded-full text-emerald-400 bg-emerald-400/10">Locked-In</span>}
+          </div>
+
+          <div className="space-y-2">
+            {FLAVOR_FIELDS.map(f => (
+              <div key={f.k} className="flex items-center gap-4">
+                <span className="text-[10px] text-slate-400 w-12 font-medium">{f.l}</span>
+                <div className="flex-1 flex gap-1.5 h-1">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <div key={i} className={`flex-1 rounded-full ${i < shot.flavorProfile[f.k] ? 'bg-amber-500/60' : 'bg-white/5'}`} />
+                  ))}
+                </div>
+                <span className="text-xs font-bold text-amber-500 w-4">{shot.flavorProfile[f.k]}</span>
+              </div>
+            ))}
+          </div>
+
+          {shot.notes && <p className="text-sm text-slate-400 leading-relaxed italic">"{shot.notes}"</p>}
+
+          {recipe && (
+            <div className="bg-black/40 border border-white/5 rounded-2xl p-4 space-y-2">
+              <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Rezept • {recipe.name}</p>
+              <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 gap-y-1 text-[11px] items-baseline">
+                {compareShotToRecipe(shot, recipe).map(d => (
+                  <React.Fragment key={d.label}>
+                    <span className="text-slate-400">{d.label}</span>
+                    <span className="font-mono text-slate-500 text-right">{d.target}</span>
+                    <span className="font-mono text-slate-200 text-right">{d.actual}</span>
+                    <span className={`text-[9px] font-bold uppercase ${DEVIATION_STYLE[d.status].className}`}>{DEVIATION_STYLE[d.status].label}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {shot.advice && (
+            <div className="bg-black/40 border border-white/5 rounded-2xl p-4 space-y-2">
+              <p className="text-[9px] text-amber-500 font-bold uppercase tracking-widest">
+                Coach{shot.advice.source === 'offline' ? ' • Offline' : shot.advice.source === 'mock' ? ' • Demo' : ''}
+              </p>
+              <p className="text-sm text-white font-medium">{shot.advice.diagnosis}</p>
+              <p className="text-xs text-slate-400">{shot.advice.recommendation}</p>
+              <p className="text-xs text-amber-500/80 font-mono">{shot.advice.adjustment}</p>
+              {shot.advice.explanation && <p className="text-[11px] text-slate-500 leading-relaxed">{shot.advice.explanation}</p>}
+            </div>
+          )}
+
+          {shot.curve ? (
+            <>
+              <ShotCurveChart
+                curve={shot.curve}
+                compareCurve={compareShot?.curve}
+                label={new Date(shot.timestamp).toLocaleDateString('de-DE')}
+                compareLabel={compareShot ? new Date(compareShot.timestamp).toLocaleDateString('de-DE') : undefined}
+              />
+              {candidates.length > 0 && (
+                <select
+                  value={compareId}
+                  onChange={e => setCompareId(e.target.value)}
+                  className="w-full bg-black border border-white/10 rounded-xl px-4 py-3 text-xs text-slate-300 outline-none focus:border-amber-500/50"
+                >
+                  <option value="">Mit anderem Shot vergleichen…</option>
+                  {candidates.map(s => (
+                    <option key={s.id} value={s.id}>
+                      {s.beanName} • {formatDate(s.timestamp)} • {s.dose}/{s.yield}g in {s.time}s
+                    </option>
+                  ))}
+                </select>
+              )}
+            </>
+          ) : (
+            <p className="text-slate-600 text-xs">Für diesen Shot wurde keine Messkurve aufgezeichnet.</p>
+          )}
+
+          {shot.edits && shot.edits.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Änderungen</p>
+              {[...shot.edits].reverse().map(edit => (
+                <div key={edit.timestamp} className="text-[11px] text-slate-500">
+                  <span className="font-bold text-slate-400">{formatDate(edit.timestamp)}</span>
+                  {edit.changes.map(c => (
+                    <p key={c.field} className="font-mono pl-3">
+                      {FIELD_LABEL[c.field] || c.field}: <span className="line-through text-slate-600">{c.from || '–'}</span> → <span className="text-amber-500/80">{c.to || '–'}</span>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(toDraft(shot))} className="flex-1 bg-white/5 text-slate-300 font-bold py-3 rounded-xl text-xs">Bearbeiten</button>
+            <button onClick={() => onClone(shot)} className="flex-1 bg-amber-500 text-black font-bold py-3 rounded-xl text-xs">Als neuen Shot klonen</button>
+          </div>
+          <button
+            onClick={() => { onSaveRecipe(shot); setRecipeSaved(true); }}
+            disabled={recipeSaved}
+            className="w-full bg-white/5 text-amber-500 font-bold py-3 rounded-xl text-xs disabled:text-slate-500"
+          >
+            {recipeSaved ? 'Als Rezept gespeichert' : 'Als Rezept speichern'}
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
@@ -1,22 +1,66 @@
-
 import React, { useState, useEffect, useRef } from 'react';
+import { ShotCurvePoint, ShotTiming } from '../types.ts';
+import {
+  ScaleConnection, ScaleReading, computeFlow, connectBluetoothScale, createSimulatedScale, isBluetoothAvailable,
+  loadScaleSettings, saveScaleSettings, toCurve, DRIP_SETTLE_MS, FIRST_DROP_THRESHOLD, TARE_SETTLED_THRESHOLD,
+} from '../services/scaleService.ts';
+import { LiveShotState, PacingStatus, ShotTargets, getPacing, getProgress, playCue, primeCue, shouldCue } from '../services/guidanceService.ts';
+
+export interface ScaleMeasurement {
+  yield: number; // Gewicht nach dem Nachtropfen
+  curve: ShotCurvePoint[];
+}
 
 interface ShotTimerProps {
-  onStop: (seconds: number) => void;
+  onStop: (timing: ShotTiming, measurement?: ScaleMeasurement) => void;
+  scale?: ScaleConnection | null;
+  onScaleChange?: (scale: ScaleConnection | null) => void;
+  targets?: ShotTargets; // Rezeptziele; Auto-Stop bei Zielgewicht minus Nachtropf-Offset
 }
 
-type TimerState = 'IDLE' | 'PUMPING' | 'EXTRACTING';
+type TimerState = 'IDLE' | 'PUMPING' | 'EXTRACTING' | 'SETTLING';
+
+const PACING: Record<PacingStatus, { label: string; color: string }> = {
+  'on-track': { label: 'Im Plan', color: '#10b981' },
+  fast: { label: 'Läuft zu schnell', color: '#38bdf8' },
+  slow: { label: 'Läuft zu langsam', color: '#ef4444' },
+  unknown: { label: '', color: '#f59e0b' },
+};
+
+const toTenths = (ms: number) => Math.round(ms / 100) / 10;
+
+const RING_RADIUS = 70;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
 
-export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop }) => {
+export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop, scale, onScaleChange, targets }) => {
+  const targetYield = targets?.yield;
   const [state, setState] = useState<TimerState>('IDLE');
   const [time, setTime] = useState(0);
   const [pumpTime, setPumpTime] = useState(0);
+  const [weight, setWeight] = useState(0);
+  const [flow, setFlow] = useState(0);
+  const [dripOffset, setDripOffset] = useState(() => loadScaleSettings().dripOffset);
+  const [scaleError, setScaleError] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
   const timerRef = useRef<number | null>(null);
   const pumpTimerRef = useRef<number | null>(null);
+  // Der Waagen-Listener läuft außerhalb des Render-Zyklus und liest deshalb über Refs
+  const stateRef = useRef<TimerState>('IDLE');
+  const pumpStartRef = useRef(0);
+  const extractStartRef = useRef(0);
+  const readingsRef = useRef<ScaleReading[]>([]);
+  const taredRef = useRef(false);
+  const autoStopRef = useRef<() => void>(() => {});
+  const cuedRef = useRef(false);
+
+  const transition = (next: TimerState) => {
+    stateRef.current = next;
+    setState(next);
+  };
 
   useEffect(() => {
     if (state === 'EXTRACTING') {
-      const startTime = Date.now() - time * 1000;
+      const startTime = extractStartRef.current;
       timerRef.current = window.setInterval(() => {
         setTime(Math.floor((Date.now() - startTime) / 1000));
       }, 100);
@@ -25,7 +69,7 @@ export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop }) => {
     }
 
     if (state === 'PUMPING') {
-      const startPumpTime = Date.now() - pumpTime * 1000;
+      const startPumpTime = pumpStartRef.current;
       pumpTimerRef.current = window.setInterval(() => {
         setPumpTime(Math.floor((Date.now() - startPumpTime) / 1000));
       }, 100);
@@ -39,39 +83,216 @@ export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop }) => {
     };
   }, [state]);
 
+  useEffect(() => {
+    saveScaleSettings({ dripOffset });
+  }, [dripOffset]);
+
+  const live: LiveShotState | null = state === 'PUMPING' || state === 'EXTRACTING'
+    ? {
+      phase: state === 'PUMPING' ? 'pumping' : 'extracting',
+      elapsed: time,
+      pumpTime,
+      weight: scale ? weight : undefined,
+      flow: scale ? flow : undefined,
+    }
+    : null;
+  // Ziel für die Vorwarnung ist der Stop-Punkt, also inklusive Nachtropf-Offset
+  const cueTargets = targets && scale && targetYield ? { ...targets, yield: targetYield - dripOffset } : targets;
+  const pacing = live && targets ? getPacing(live, targets) : 'unknown';
+  const progress = live && targets ? getProgress(live, targets) : 0;
+
+  useEffect(() => {
+    if (!live || !cueTargets || cuedRef.current) return;
+    if (shouldCue(live, cueTargets)) {
+      cuedRef.current = true;
+      playCue();
+    }
+  }, [time, weight, state]);
+
+  useEffect(() => {
+    if (!scale) return;
+    return scale.subscribe(reading => {
+      setWeight(reading.weight);
+      if (stateRef.current === 'IDLE') return;
+      // BLE-Waagen melden nach dem Tarieren noch kurz das alte Gewicht (z.B. die Tasse) –
+      // das wäre sonst ein erster Tropfen bei 0 s oder ein sofortiger Auto-Stop
+      if (!taredRef.current) {
+        if (Math.abs(reading.weight) >= TARE_SETTLED_THRESHOLD) return;
+        taredRef.current = true;
+      }
+      readingsRef.current.push(reading);
+      setFlow(computeFlow(readingsRef.current));
+
+      if (stateRef.current === 'PUMPING' && reading.weight >= FIRST_DROP_THRESHOLD) {
+        extractStartRef.current = reading.timestamp;
+        setPumpTime(Math.floor((reading.timestamp - pumpStartRef.current) / 1000));
+        transition('EXTRACTING');
+      } else if (stateRef.current === 'EXTRACTING' && targetYield && reading.weight >= targetYield - dripOffset) {
+        autoStopRef.current();
+      }
+    });
+  }, [scale, targetYield, dripOffset]);
+
   const handleStartPump = () => {
-    setState('PUMPING');
+    primeCue();
+    cuedRef.current = false;
+    readingsRef.current = [];
+    taredRef.current = false;
+    pumpStartRef.current = Date.now();
     setTime(0);
     setPumpTime(0);
+    setFlow(0);
+    if (scale) scale.tare().catch(err => setScaleError(String(err?.message || err)));
+    transition('PUMPING');
   };
 
   const handleFirstDrop = () => {
-    setState('EXTRACTING');
+    extractStartRef.current = Date.now();
+    setPumpTime(Math.floor((extractStartRef.current - pumpStartRef.current) / 1000));
+    transition('EXTRACTING');
   };
 
   const handleStop = () => {
-    onStop(time);
-    setState('IDLE');
+    const preinfusion = toTenths(extractStartRef.current - pumpStartRef.current);
+    const extraction = toTenths(Date.now() - extractStartRef.current);
+    const timing: ShotTiming = { total: Math.round((preinfusion + extraction) * 10) / 10, preinfusion, extraction };
+    setTime(Math.floor(extraction));
+    if (!scale) {
+      onStop(timing);
+      transition('IDLE');
+      return;
+    }
+    // Nachtropfen abwarten, erst dann ist das Tassengewicht final
+    scale.pumpStopped?.();
+    transition('SETTLING');
+    window.setTimeout(() => {
+      const readings = readingsRef.current;
+      // Ohne Messwerte nur die Zeit melden, sonst überschreibt ein Ertrag von 0g das Formular
+      onStop(timing, readings.length > 0 ? {
+        yield: Math.round(readings[readings.length - 1].weight * 10) / 10,
+        curve: toCurve(readings, extractStartRef.current),
+      } : undefined);
+      transition('IDLE');
+    }, DRIP_SETTLE_MS);
   };
+  autoStopRef.current = handleStop;
 
   const handleReset = () => {
-    setState('IDLE');
+    scale?.pumpStopped?.();
+    transition('IDLE');
     setTime(0);
     setPumpTime(0);
   };
 
+  const connect = async (simulated: boolean) => {
+    setScaleError(null);
+    setConnecting(true);
+    try {
+      onScaleChange?.(simulated ? createSimulatedScale() : await connectBluetoothScale());
+    } catch (err: any) {
+      // Abbruch im Geräte-Dialog ist kein Fehler
+      if (err?.name !== 'NotFoundError') setScaleError(err?.message || "Waage konnte nicht verbunden werden.");
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const disconnect = () => {
+    scale?.disconnect();
+    onScaleChange?.(null);
+    setWeight(0);
+    setFlow(0);
+  };
+
   return (
     <div className="bg-black/40 border border-white/5 rounded-3xl p-6 flex flex-col items-center gap-4 w-full">
-      <div className="flex flex-col items-center gap-1">
+      {onScaleChange && (
+        <div className="w-full flex items-center justify-between gap-2 text-[10px] font-bold uppercase tracking-widest">
+          {scale ? (
+            <>
+              <span className="text-emerald-400 truncate">{scale.name}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <label className="text-slate-600">Nachtropfen</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={dripOffset}
+                  onChange={e => setDripOffset(Math.max(0, Number(e.target.value)))}
+                  className="w-12 bg-black border border-white/10 rounded-lg px-2 py-1 text-amber-500 font-mono text-center outline-none"
+                />
+                <span className="text-slate-600">g</span>
+                <button type="button" onClick={disconnect} className="text-slate-500 px-2 py-1">Trennen</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <span className="text-slate-600">Keine Waage</span>
+              <div className="flex gap-2">
+                {isBluetoothAvailable() && (
+                  <button type="button" disabled={connecting} onClick={() => connect(false)} className="text-amber-500 bg-amber-500/10 px-3 py-1 rounded-full disabled:opacity-30">
+                    Waage verbinden
+                  </button>
+                )}
+                <button type="button" disabled={connecting} onClick={() => connect(true)} className="text-slate-400 bg-white/5 px-3 py-1 rounded-full disabled:opacity-30">
+                  Simulation
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      {scaleError && <p className="text-red-500 text-[10px] font-bold">{scaleError}</p>}
+
+      <div className="relative w-44 h-44 flex flex-col items-center justify-center gap-1">
+        <svg className="absolute inset-0 -rotate-90" viewBox="0 0 160 160">
+          <circle cx="80" cy="80" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.05)" strokeWidth="6" />
+          {targets && (
+            <circle
+              cx="80" cy="80" r={RING_RADIUS} fill="none"
+              stroke={PACING[pacing].color}
+              strokeWidth="6"
+              strokeLinecap="round"
+              strokeDasharray={RING_LENGTH}
+              strokeDashoffset={RING_LENGTH * (1 - progress)}
+              className="transition-all duration-300"
+            />
+          )}
+        </svg>
         <span className="text-[10px] uppercase font-bold text-slate-500 tracking-widest">Extraktionszeit</span>
         <div className="text-5xl font-mono font-bold text-amber-500 tabular-nums">
           {time}<span className="text-xl text-slate-600 ml-1">s</span>
         </div>
+        {targets && (
+          <span className="text-[9px] font-bold uppercase tracking-widest text-slate-600">
+            Ziel {targets.timeMin}–{targets.timeMax}s{targetYield ? ` • ${targetYield}g` : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-1">
+        {live && PACING[pacing].label && (
+          <span className="text-[10px] font-bold uppercase tracking-widest px-3 py-1 rounded-full bg-white/5" style={{ color: PACING[pacing].color }}>
+            {PACING[pacing].label}
+          </span>
+        )}
+        {scale && (
+          <div className="flex gap-4 text-xs font-mono text-slate-300 mt-1">
+            <span>{weight.toFixed(1)}<span className="text-slate-600"> g</span>{targetYield ? <span className="text-slate-600"> / {targetYield} g</span> : null}</span>
+            <span>{flow.toFixed(1)}<span className="text-slate-600"> g/s</span></span>
+          </div>
+        )}
         {state === 'PUMPING' && (
           <div className="text-xs text-emerald-500 font-bold animate-pulse mt-2">
-            Warte auf ersten Tropfen... ({pumpTime}s)
+            Warte auf ersten Tropfen... ({pumpTime}s{targets?.preinfusion !== undefined ? ` / ~${targets.preinfusion}s` : ''})
           </div>
         )}
+        {state === 'EXTRACTING' && (
+          <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">Erster Tropfen nach {pumpTime}s</div>
+        )}
+        {state === 'SETTLING' && (
+          <div className="text-xs text-sky-400 font-bold animate-pulse mt-2">Nachtropfen wird gewogen...</div>
+        )}
       </div>
 
       <div className="flex gap-3 w-full">
@@ -84,7 +305,7 @@ export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop }) => {
             Pumpe Start
           </button>
         )}
-        
+
         {state === 'PUMPING' && (
           <button
             onClick={handleFirstDrop}
@@ -105,7 +326,7 @@ export const ShotTimer: React.FC<ShotTimerProps> = ({ onStop }) => {
           </button>
         )}
 
-        {state !== 'IDLE' && (
+        {state !== 'IDLE' && state !== 'SETTLING' && (
           <button
             onClick={handleReset}
             type="button"
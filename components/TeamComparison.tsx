@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { BaristaProfile, EquipmentProfile, EspressoShot } from '../types.ts';
+import { getInitials } from '../services/profileService.ts';
+import { listBeanNames, loadShotsByBean } from '../services/shotRepository.ts';
+import { formatTempSetting, getEquipment } from '../services/equipmentService.ts';
+import { groupSessions } from '../services/sessionService.ts';
+
+interface TeamComparisonProps {
+  profiles: BaristaProfile[];
+  equipmentProfiles: EquipmentProfile[];
+  onClose: () => void;
+}
+
+// Gelocktes Rezept hat Vorrang, sonst der am besten bewertete (bei Gleichstand jüngste) Shot
+const pickReference = (shots: EspressoShot[]): EspressoShot | undefined => {
+  const locked = groupSessions(shots).find(s => s.lockedShot)?.lockedShot;
+  if (locked) return locked;
+  return [...shots].sort((a, b) => b.flavorProfile.overall - a.flavorProfile.overall || b.timestamp - a.timestamp)[0];
+};
+
+export const TeamComparison: React.FC<TeamComparisonProps> = ({ profiles, equipmentProfiles, onClose }) => {
+  const [beans, setBeans] = useState<string[]>([]);
+  const [bean, setBean] = useState<string | null>(null);
+  const [shotsByProfile, setShotsByProfile] = useState<Map<string, EspressoShot[]>>(new Map());
+  const activeBean = bean ?? beans[0] ?? null;
+  const profileIds = profiles.map(p => p.id).join(',');
+
+  useEffect(() => {
+    listBeanNames(profiles.map(p => p.id)).then(setBeans).catch(console.error);
+  }, [profileIds]);
+
+  // Nur die Shots der gewählten Bohne laden – über den beanName-Index
+  useEffect(() => {
+    if (!activeBean) return;
+    loadShotsByBean(activeBean, profiles.map(p => p.id)).then(setShotsByProfile).catch(console.error);
+  }, [activeBean, profileIds]);
+
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-2xl space-y-5 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white font-serif">Team-Vergleich</h2>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      {beans.length === 0 ? (
+        <p className="text-slate-600 text-xs">Noch keine Shots im Team erfasst.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {beans.map(b => (
+              <button
+                key={b}
+                onClick={() => setBean(b)}
+                className={`shrink-0 px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all max-w-[180px] truncate ${activeBean === b ? 'bg-amber-500 text-black' : 'bg-[#1a1a1a] text-slate-500'}`}
+              >
+                {b}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {profiles.map(profile => {
+              const beanShots = shotsByProfile.get(profile.id) || [];
+              const reference = pickReference(beanShots);
+              const equipment = getEquipment(equipmentProfiles, reference?.equipmentId);
+              return (
+                <div key={profile.id} className="bg-black/40 border border-white/5 rounded-2xl p-4">
+                  <div className="flex items-center gap-3 mb-3">
+                    <span className="w-8 h-8 rounded-lg bg-white/5 text-amber-500 flex items-center justify-center text-[10px] font-bold">{getInitials(profile.name)}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-white truncate">{profile.name}</p>
+                      <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+                        {beanShots.length} Shots{reference ? ` • ${equipment.name}` : ''}
+                      </p>
+                    </div>
+                    {reference?.lockedIn && (
+                      <span className="text-[9px] font-bold uppercase px-2 py-0.5 rounded-full text-emerald-400 bg-emerald-400/10">Locked-In</span>
+                    )}
+                  </div>
+                  {reference ? (
+                    <div className="grid grid-cols-5 gap-2 text-center">
+                      {[
+                        { l: 'In/Out', v: `${reference.dose}/${reference.yield}g` },
+                        { l: 'Zeit', v: `${reference.time}s` },
+                        { l: 'Mahlgrad', v: reference.grindSetting || 'n.a.' },
+                        { l: 'Temp', v: formatTempSetting(equipment.machine, reference.tempSetting) },
+                        { l: 'Qualität', v: `${reference.flavorProfile.overall}/5` },
+                      ].map(t => (
+                        <div key={t.l}>
+                          <p className="text-[8px] text-slate-600 uppercase font-bold mb-1 tracking-tighter">{t.l}</p>
+                          <p className="text-[11px] font-mono text-slate-200 truncate">{t.v}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-slate-600 text-xs">Diese Bohne noch nicht eingestellt.</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { TrashedShot, TRASH_RETENTION_DAYS } from '../services/shotRepository.ts';
+
+interface TrashPanelProps {
+  entries: TrashedShot[];
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ entries, onRestore, onPurge, onClose }) => {
+  return (
+    <section className="bg-[#111] p-6 rounded-[2rem] border border-white/5 shadow-2xl space-y-5 animate-in fade-in slide-in-from-top-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-white font-serif">Papierkorb</h2>
+          <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">Wird nach {TRASH_RETENTION_DAYS} Tagen geleert</p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 text-xs font-medium px-2 py-1">Schließen</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-slate-600 text-xs">Der Papierkorb ist leer.</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(({ shot, deletedAt }) => {
+            const daysLeft = Math.max(0, TRASH_RETENTION_DAYS - Math.floor((Date.now() - deletedAt) / DAY_MS));
+            return (
+              <div key={shot.id} className="bg-black/40 border border-white/5 rounded-2xl p-4 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-white truncate">{shot.beanName || 'Unbenannter Shot'}</p>
+                  <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+                    {new Date(shot.timestamp).toLocaleDateString('de-DE')} • {shot.dose}/{shot.yield}g in {shot.time}s • noch {daysLeft} Tage
+                  </p>
+                </div>
+                <button onClick={() => onRestore(shot.id)} className="text-amber-500 text-[10px] font-bold uppercase bg-amber-500/10 px-3 py-1 rounded-full shrink-0">
+                  Wiederherstellen
+                </button>
+                <button onClick={() => onPurge(shot.id)} className="text-slate-600 hover:text-red-500/70 text-[10px] font-bold uppercase px-2 py-1 shrink-0">
+                  Löschen
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  return (
+    <div className="fixed bottom-24 md:bottom-6 left-1/2 -translate-x-1/2 z-50 animate-in fade-in slide-in-from-bottom-10">
+      <div className="bg-[#1a1a1a] border border-white/10 rounded-2xl shadow-2xl px-5 py-3 flex items-center gap-4">
+        <span className="text-xs text-slate-300 font-medium">{message}</span>
+        <button onClick={onUndo} className="text-amber-500 text-xs font-bold uppercase tracking-widest">Rückgängig</button>
+        <button onClick={onDismiss} className="text-slate-600 text-xs px-1">✕</button>
+      </div>
+    </div>
+  );
+};
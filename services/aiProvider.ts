@@ -0,0 +1,197 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProviderKind, AiSettings } from "../types.ts";
+import { getActiveApiKey } from "./profileService.ts";
+
+const SETTINGS_KEY = 'barista_ai_v1';
+
+// Schlichtes JSON Schema, das Gemini (responseJsonSchema) und OpenAI (json_schema) gleichermaßen verstehen
+export type JsonSchema = Record<string, unknown>;
+
+export interface GenerateRequest {
+  system: string;
+  prompt: string;
+  schema?: JsonSchema; // Erzwingt strukturiertes JSON, sofern der Anbieter es kann
+  search?: boolean; // Websuche zuschalten, falls unterstützt
+}
+
+export interface GenerateResult {
+  text: string;
+  sources: { title: string; uri: string }[];
+}
+
+/**
+ * Gemeinsame Schnittstelle aller KI-Anbieter. Die Coach-Funktionen bauen nur
+ * Prompts und werten Text aus – wer antwortet, entscheidet der Provider.
+ */
+export interface AdviceProvider {
+  kind: AiProviderKind;
+  model: string;
+  canSearch: boolean; // Eigene Websuche mit Quellen (Grounding)
+  needsNetwork: boolean;
+  isConfigured: () => boolean;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+export const PROVIDER_LABEL: Record<AiProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-kompatibel',
+  mock: 'Demo (ohne Netz)',
+};
+
+export const DEFAULT_MODEL: Record<AiProviderKind, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+// Voreinstellungen für gängige OpenAI-kompatible Server
+export const OPENAI_PRESETS: { label: string; baseUrl: string; model: string }[] = [
+  { label: 'OpenAI', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  { label: 'Ollama', baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+  { label: 'llama.cpp', baseUrl: 'http://localhost:8080/v1', model: 'local' },
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODEL.gemini,
+  baseUrl: OPENAI_PRESETS[0].baseUrl,
+};
+
+const PROVIDER_KINDS = Object.keys(PROVIDER_LABEL) as AiProviderKind[];
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || !PROVIDER_KINDS.includes(saved.provider)) return DEFAULT_AI_SETTINGS;
+    return {
+      provider: saved.provider,
+      model: typeof saved.model === 'string' && saved.model ? saved.model : DEFAULT_MODEL[saved.provider as AiProviderKind],
+      baseUrl: typeof saved.baseUrl === 'string' ? saved.baseUrl : DEFAULT_AI_SETTINGS.baseUrl,
+      apiKey: typeof saved.apiKey === 'string' && saved.apiKey ? saved.apiKey : undefined,
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Priorität: 1. Key des aktiven Barista-Profils, 2. Build-Umgebung
+const getGeminiApiKey = (): string => getActiveApiKey() || process.env.API_KEY || '';
+
+export const createGeminiProvider = (model: string = DEFAULT_MODEL.gemini, getKey: () => string = getGeminiApiKey): AdviceProvider => ({
+  kind: 'gemini',
+  model,
+  canSearch: true,
+  needsNetwork: true,
+  isConfigured: () => Boolean(getKey()),
+  generate: async ({ system, prompt, schema, search }) => {
+    // Instanz erst beim Aufruf, damit immer der aktuellste Key genutzt wird
+    const ai = new GoogleGenAI({ apiKey: getKey() });
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: search
+        // Search Grounding verträgt sich nicht mit erzwungenem JSON, das Parsen übernimmt der Aufrufer
+        ? { systemInstruction: system, tools: [{ googleSearch: {} }] }
+        : { systemInstruction: system, responseMimeType: schema ? "application/json" : undefined, responseJsonSchema: schema },
+    });
+    const sources = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+      .map(chunk => ({ title: chunk.web?.title || "Quelle", uri: chunk.web?.uri || "" }))
+      .filter(s => s.uri);
+    return { text: response.text || "", sources };
+  },
+});
+
+/**
+ * Jeder Server mit /chat/completions nach OpenAI-Vorbild: OpenAI selbst, Ollama,
+ * llama.cpp, LM Studio. Lokale Server brauchen meist keinen Key.
+ */
+export const createOpenAiProvider = (settings: Pick<AiSettings, 'baseUrl' | 'model' | 'apiKey'>): AdviceProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  return {
+    kind: 'openai',
+    model: settings.model,
+    canSearch: false,
+    needsNetwork: !/^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:|\/|$)/.test(baseUrl),
+    isConfigured: () => Boolean(baseUrl && settings.model),
+    generate: async ({ system, prompt, schema }) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt },
+          ],
+          ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'antwort', schema } } } : {}),
+        }),
+      });
+      if (!response.ok) throw new Error(`${baseUrl} antwortet mit HTTP ${response.status}`);
+      const data = await response.json();
+      return { text: data?.choices?.[0]?.message?.content || "", sources: [] };
+    },
+  };
+};
+
+/**
+ * Antwortet ohne Netz mit festen oder übergebenen Texten. Für Demos und um den
+ * Coach-Ablauf ohne API-Key durchzuspielen; `requests` protokolliert alle Aufrufe.
+ */
+export const createMockProvider = (
+  reply: (request: GenerateRequest) => string = defaultMockReply
+): AdviceProvider & { requests: GenerateRequest[] } => {
+  const requests: GenerateRequest[] = [];
+  return {
+    kind: 'mock',
+    model: DEFAULT_MODEL.mock,
+    canSearch: false,
+    needsNetwork: false,
+    isConfigured: () => true,
+    requests,
+    generate: async (request) => {
+      requests.push(request);
+      return { text: reply(request), sources: [] };
+    },
+  };
+};
+
+const defaultMockReply = (request: GenerateRequest): string => {
+  if (request.search) {
+    return JSON.stringify({ found: true, dose: 18, yield: 36, time: 28, description: 'Demo-Rezept ohne Websuche.' });
+  }
+  return JSON.stringify({
+    diagnosis: 'Demo-Analyse: Der Shot wurde nicht von einem echten Modell bewertet.',
+    recommendation: 'Rezept wiederholen und Geschmack vergleichen.',
+    adjustment: 'Rezept beibehalten',
+    explanation: 'Antwort des Demo-Anbieters, gedacht zum Ausprobieren ohne API-Key.',
+    trajectory: 'Kein Verlauf ausgewertet.',
+    nextShot: { grindDelta: 0, targetDose: 18, targetYield: 36, targetTime: 28, tempSetting: '' },
+  });
+};
+
+export const createProvider = (settings: AiSettings): AdviceProvider => {
+  if (settings.provider === 'openai') return createOpenAiProvider(settings);
+  if (settings.provider === 'mock') return createMockProvider();
+  return createGeminiProvider(settings.model || DEFAULT_MODEL.gemini);
+};
+
+// Wird zur Laufzeit gelesen, damit Änderungen in den Einstellungen sofort gelten
+export const getActiveProvider = (): AdviceProvider => createProvider(loadAiSettings());
+
+// Ohne Konfiguration oder Netz gar nicht erst versuchen
+export const canReachProvider = (provider: AdviceProvider): boolean => {
+  if (!provider.isConfigured()) return false;
+  return !provider.needsNetwork || typeof navigator === 'undefined' || navigator.onLine !== false;
+};
+
+// Gemini ohne Key braucht das Setup – außer in AI Studio, das den Key selbst bereitstellt
+export const needsKeySetup = (provider: AdviceProvider, hasAiStudio: boolean = false): boolean => {
+  return provider.kind === 'gemini' && !provider.isConfigured() && !hasAiStudio;
+};
@@ -0,0 +1,124 @@
+import { EspressoShot } from "../types.ts";
+import { parseGrind } from "./sessionService.ts";
+import { getExtractionYield } from "./extractionService.ts";
+
+export interface Regression {
+  slope: number; // Sekunden pro Skalenschritt
+  intercept: number;
+  r2: number; // Bestimmtheitsmaß 0–1
+}
+
+export interface ControlPoint {
+  id: string;
+  time: number;
+  ratio: number;
+  rating: number;
+  beanName: string;
+}
+
+const FLAVOR_AXES: { key: keyof EspressoShot['flavorProfile']; label: string }[] = [
+  { key: 'sourness', label: 'Säure' },
+  { key: 'sweetness', label: 'Süße' },
+  { key: 'body', label: 'Körper' },
+  { key: 'bitterness', label: 'Bitterkeit' },
+  { key: 'overall', label: 'Gesamt' },
+];
+
+// Brew-Control-Chart: Zeit gegen Ratio, Bewertung als Farbe
+export const getControlPoints = (shots: EspressoShot[]): ControlPoint[] => {
+  return shots
+    .filter(s => s.dose > 0 && s.time > 0)
+    .map(s => ({
+      id: s.id,
+      time: s.time,
+      ratio: Math.round((s.yield / s.dose) * 100) / 100,
+      rating: s.flavorProfile.overall,
+      beanName: s.beanName,
+    }));
+};
+
+export interface ExtractionPoint {
+  id: string;
+  ey: number;
+  tds: number;
+  rating: number;
+  beanName: string;
+}
+
+// Brewing Control Chart: nur Shots mit Refraktometer-Messung
+export const getExtractionPoints = (shots: EspressoShot[]): ExtractionPoint[] => {
+  return shots
+    .map(s => ({ shot: s, ey: getExtractionYield(s) }))
+    .filter((p): p is { shot: EspressoShot; ey: number } => p.ey !== null)
+    .map(({ shot, ey }) => ({ id: shot.id, ey, tds: shot.tds!, rating: shot.flavorProfile.overall, beanName: shot.beanName }));
+};
+
+// Kleinste Quadrate; null, solange weniger als zwei verschiedene x-Werte vorliegen
+export const linearRegression = (points: { x: number; y: number }[]): Regression | null => {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const ssTot = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+  const ssRes = points.reduce((sum, p) => sum + (p.y - (slope * p.x + intercept)) ** 2, 0);
+  return { slope, intercept, r2: ssTot === 0 ? 1 : Math.max(0, 1 - ssRes / ssTot) };
+};
+
+// Mahlgrad gegen Zeit für eine Bohne; nicht numerische Mahlgrade fallen heraus
+export const getGrindTimePoints = (shots: EspressoShot[], beanName: string): { x: number; y: number }[] => {
+  return shots
+    .filter(s => s.beanName === beanName)
+    .map(s => ({ x: parseGrind(s.grindSetting), y: s.time }))
+    .filter((p): p is { x: number; y: number } => p.x !== null && p.y > 0);
+};
+
+export const getFlavorRadar = (shots: EspressoShot[]): { axis: string; value: number }[] => {
+  return FLAVOR_AXES.map(({ key, label }) => ({
+    axis: label,
+    value: shots.length > 0
+      ? Math.round((shots.reduce((sum, s) => sum + s.flavorProfile[key], 0) / shots.length) * 10) / 10
+      : 0,
+  }));
+};
+
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Lückenlose Tagesreihe der letzten `days` Tage, heute zuletzt.
+// Nach Kalendertagen zählen: feste 24 h überspringen oder doppeln bei der Zeitumstellung einen Tag
+export const getShotsPerDay = (shots: EspressoShot[], days = 14, now: number = Date.now()): { label: string; shots: number }[] => {
+  const counts = new Map<string, number>();
+  shots.forEach(s => counts.set(dayKey(s.timestamp), (counts.get(dayKey(s.timestamp)) || 0) + 1));
+  const day = new Date(now);
+  day.setDate(day.getDate() - (days - 1));
+  return Array.from({ length: days }, () => {
+    const timestamp = day.getTime();
+    day.setDate(day.getDate() + 1);
+    return {
+      label: new Date(timestamp).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' }),
+      shots: counts.get(dayKey(timestamp)) || 0,
+    };
+  });
+};
+
+// Anzahl verschiedener Bohnen je Kalendermonat, aktueller Monat zuletzt
+export const getBeansPerMonth = (shots: EspressoShot[], months = 6, now: number = Date.now()): { label: string; beans: number }[] => {
+  const current = new Date(now);
+  return Array.from({ length: months }, (_, i) => {
+    const start = new Date(current.getFullYear(), current.getMonth() - (months - 1 - i), 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const beans = new Set(
+      shots
+        .filter(s => s.timestamp >= start.getTime() && s.timestamp < end.getTime())
+        .map(s => s.beanName.toLowerCase())
+    );
+    return { label: start.toLocaleDateString('de-DE', { month: 'short' }), beans: beans.size };
+  });
+};
@@ -0,0 +1,54 @@
+import { BeanBag, RoastLevel } from "../types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unter diesem Restbestand (in Shots à Dosis) gilt eine Tüte als fast leer
+const LOW_STOCK_SHOTS = 3;
+
+export type RestStatus = 'resting' | 'ready' | 'stale' | 'unknown';
+
+export const ROAST_LEVELS: { value: RoastLevel; label: string }[] = [
+  { value: 'light', label: 'Hell' },
+  { value: 'medium-light', label: 'Mittel-Hell' },
+  { value: 'medium', label: 'Mittel' },
+  { value: 'medium-dark', label: 'Mittel-Dunkel' },
+  { value: 'dark', label: 'Dunkel' },
+];
+
+// Empfohlene Ruhezeit in Tagen je Röstgrad – helle Röstungen brauchen länger zum Entgasen
+const REST_WINDOW: Record<RoastLevel, { min: number; max: number }> = {
+  'light': { min: 10, max: 45 },
+  'medium-light': { min: 8, max: 40 },
+  'medium': { min: 7, max: 35 },
+  'medium-dark': { min: 5, max: 30 },
+  'dark': { min: 4, max: 25 },
+};
+
+export const daysOffRoast = (roastDate: string | undefined, at: number = Date.now()): number | null => {
+  if (!roastDate) return null;
+  const roasted = new Date(roastDate).getTime();
+  if (Number.isNaN(roasted)) return null;
+  return Math.max(0, Math.floor((at - roasted) / DAY_MS));
+};
+
+export const getRestStatus = (bag: Pick<BeanBag, 'roastDate' | 'roastLevel'>, at: number = Date.now()): RestStatus => {
+  const days = daysOffRoast(bag.roastDate, at);
+  if (days === null) return 'unknown';
+  const window = REST_WINDOW[bag.roastLevel] || REST_WINDOW.medium;
+  if (days < window.min) return 'resting';
+  if (days > window.max) return 'stale';
+  return 'ready';
+};
+
+export const isLowStock = (bag: BeanBag, dose: number = 18): boolean => {
+  return bag.remainingWeight < dose * LOW_STOCK_SHOTS;
+};
+
+export const consumeDose = (bag: BeanBag, dose: number): BeanBag => ({
+  ...bag,
+  remainingWeight: Math.max(0, Math.round((bag.remainingWeight - dose) * 10) / 10),
+});
+
+export const formatBagLabel = (bag: BeanBag): string => {
+  return bag.roaster ? `${bag.beanName} · ${bag.roaster}` : bag.beanName;
+};
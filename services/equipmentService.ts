@@ -0,0 +1,94 @@
+import { EquipmentProfile, MachineProfile } from "../types.ts";
+
+export const DEFAULT_EQUIPMENT_ID = 'marax-vs3';
+
+export const BUILT_IN_PROFILES: EquipmentProfile[] = [
+  {
+    id: DEFAULT_EQUIPMENT_ID,
+    name: 'Mara X • VS3',
+    builtIn: true,
+    machine: { name: 'Lelit Mara X', tempControl: 'pid-steps', tempSteps: ['0', 'I', 'II'], basketSize: 18 },
+    grinder: { name: 'Varia VS3', scaleMin: 0, scaleMax: 10, scaleStep: 0.1, secondsPerStep: 1.5 },
+  },
+  {
+    id: 'dualboiler-niche',
+    name: 'Dualboiler • Niche',
+    builtIn: true,
+    machine: { name: 'Dualboiler (PID)', tempControl: 'continuous', tempRange: { min: 85, max: 98, step: 0.5 }, basketSize: 18 },
+    grinder: { name: 'Niche Zero', scaleMin: 0, scaleMax: 50, scaleStep: 1, secondsPerStep: 2.5 },
+  },
+  {
+    id: 'hx-mignon',
+    name: 'Zweikreiser • Mignon',
+    builtIn: true,
+    // Langer Cooling-Flush = kühleres Brühwasser, daher beginnt die Liste mit "Lang"
+    machine: { name: 'Zweikreiser (HX)', tempControl: 'hx', tempSteps: ['Lang', 'Mittel', 'Kurz'], basketSize: 18 },
+    grinder: { name: 'Eureka Mignon', scaleMin: 0, scaleMax: 20, scaleStep: 0.25, secondsPerStep: 2 },
+  },
+];
+
+export const TEMP_CONTROL_LABEL: Record<MachineProfile['tempControl'], string> = {
+  'pid-steps': 'PID-Stufen',
+  'continuous': 'PID °C',
+  'hx': 'Zweikreiser (Flush)',
+};
+
+export const getEquipment = (profiles: EquipmentProfile[], id: string | undefined): EquipmentProfile => {
+  return profiles.find(p => p.id === id) || profiles.find(p => p.id === DEFAULT_EQUIPMENT_ID) || BUILT_IN_PROFILES[0];
+};
+
+// Diskrete Auswahl für Stufen- und HX-Maschinen, null bei stufenloser Temperatur
+export const getTempOptions = (machine: MachineProfile): string[] | null => {
+  if (machine.tempControl === 'continuous') return null;
+  return machine.tempSteps && machine.tempSteps.length > 0 ? machine.tempSteps : null;
+};
+
+export const getDefaultTempSetting = (machine: MachineProfile): string => {
+  const options = getTempOptions(machine);
+  if (options) return options[0];
+  const range = machine.tempRange || { min: 90, max: 96, step: 0.5 };
+  return String(Math.round((range.min + range.max) / 2));
+};
+
+export const formatTempSetting = (machine: MachineProfile, value: string | undefined): string => {
+  if (!value) return 'n.a.';
+  if (machine.tempControl === 'continuous') return `${value}°C`;
+  if (machine.tempControl === 'hx') return `Flush ${value}`;
+  return `PID ${value}`;
+};
+
+export const isValidTempSetting = (machine: MachineProfile, value: string | undefined): boolean => {
+  if (!value) return false;
+  const options = getTempOptions(machine);
+  if (options) return options.includes(value);
+  const numeric = Number(value);
+  const range = machine.tempRange;
+  return !Number.isNaN(numeric) && (!range || (numeric >= range.min && numeric <= range.max));
+};
+
+/**
+ * Verschiebt die Temperatur um `steps` Einheiten (positiv = heißer). Bei Stufen und
+ * HX wird die Reihenfolge der Liste als aufsteigende Temperatur interpretiert.
+ */
+export const shiftTempSetting = (machine: MachineProfile, value: string, steps: number): string => {
+  const options = getTempOptions(machine);
+  if (options) {
+    const index = Math.min(options.length - 1, Math.max(0, options.indexOf(value) + steps));
+    return options[index];
+  }
+  const range = machine.tempRange || { min: 85, max: 98, step: 0.5 };
+  const current = Number.isNaN(Number(value)) ? Number(getDefaultTempSetting(machine)) : Number(value);
+  return String(Math.min(range.max, Math.max(range.min, current + steps * range.step)));
+};
+
+// Textbaustein für die KI-Prompts
+export const describeEquipment = (profile: EquipmentProfile): string => {
+  const { machine, grinder } = profile;
+  const temp = machine.tempControl === 'continuous' && machine.tempRange
+    ? `Temperatur stufenlos ${machine.tempRange.min}–${machine.tempRange.max}°C`
+    : `${TEMP_CONTROL_LABEL[machine.tempControl]}: ${(machine.tempSteps || []).join(', ')}`;
+  return [
+    `Maschine: ${machine.name} (${temp}, ${machine.basketSize}g Sieb)`,
+    `Mühle: ${grinder.name} (Skala ${grinder.scaleMin}–${grinder.scaleMax}, Schrittweite ${grinder.scaleStep}, kleinere Zahl = feiner)`,
+  ].join("\n");
+};
@@ -0,0 +1,110 @@
+import { EquipmentProfile, EspressoShot } from "../types.ts";
+import { parseShotPayload, SHOT_SCHEMA_VERSION, ShotLoadResult } from "./storageService.ts";
+import { formatTempSetting, getEquipment } from "./equipmentService.ts";
+import { getExtractionYield } from "./extractionService.ts";
+
+export const EXPORT_FORMAT = 'baristapro-journal';
+
+export interface ImportPlan {
+  added: EspressoShot[]; // Neue IDs, werden übernommen
+  duplicates: EspressoShot[]; // Bereits vorhandene IDs, werden übersprungen
+  dropped: number; // Ungültige Einträge in der Datei
+}
+
+// Versionierter Umschlag – wird beim Import wie ein gespeichertes Journal migriert
+export const exportJournalJson = (shots: EspressoShot[], profileName?: string): string => {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    schemaVersion: SHOT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profileName,
+    shots,
+  }, null, 2);
+};
+
+const CSV_COLUMNS: { header: string; value: (shot: EspressoShot, equipment: EquipmentProfile) => string | number }[] = [
+  { header: 'id', value: s => s.id },
+  { header: 'datum', value: s => new Date(s.timestamp).toISOString() },
+  { header: 'bohne', value: s => s.beanName },
+  { header: 'roestdatum', value: s => s.roastDate || '' },
+  { header: 'dosis_g', value: s => s.dose },
+  { header: 'ertrag_g', value: s => s.yield },
+  { header: 'ratio', value: s => s.dose > 0 ? (s.yield / s.dose).toFixed(2) : '' },
+  { header: 'zeit_s', value: s => s.time },
+  { header: 'erster_tropfen_s', value: s => s.timing?.preinfusion ?? '' },
+  { header: 'kontaktzeit_s', value: s => s.timing?.total ?? '' },
+  { header: 'tds_prozent', value: s => s.tds ?? '' },
+  { header: 'extraktion_prozent', value: s => getExtractionYield(s) ?? '' },
+  { header: 'mahlgrad', value: s => s.grindSetting },
+  { header: 'temperatur', value: (s, e) => formatTempSetting(e.machine, s.tempSetting) },
+  { header: 'equipment', value: (_, e) => e.name },
+  { header: 'saeure', value: s => s.flavorProfile.sourness },
+  { header: 'bitterkeit', value: s => s.flavorProfile.bitterness },
+  { header: 'koerper', value: s => s.flavorProfile.body },
+  { header: 'suesse', value: s => s.flavorProfile.sweetness },
+  { header: 'gesamt', value: s => s.flavorProfile.overall },
+  { header: 'notizen', value: s => s.notes },
+];
+
+// Text, den Tabellenprogramme als Formel ausführen würden ("=HYPERLINK(…)", "-2+3", "@SUM")
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  const raw = String(value ?? '');
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportJournalCsv = (shots: EspressoShot[], equipmentProfiles: EquipmentProfile[]): string => {
+  const rows = shots.map(shot => {
+    const equipment = getEquipment(equipmentProfiles, shot.equipmentId);
+    return CSV_COLUMNS.map(c => escapeCsv(c.value(shot, equipment))).join(',');
+  });
+  return [CSV_COLUMNS.map(c => c.header).join(','), ...rows].join('\n');
+};
+
+// Akzeptiert den Export-Umschlag und rohe Shot-Arrays (z.B. aus dem alten localStorage)
+export const parseJournalImport = (text: string): ShotLoadResult => {
+  const payload = JSON.parse(text);
+  if (!Array.isArray(payload) && !Array.isArray(payload?.shots)) {
+    throw new Error("Keine Shot-Liste in der Datei gefunden");
+  }
+  return parseShotPayload(payload);
+};
+
+export const planImport = (existing: EspressoShot[], incoming: ShotLoadResult): ImportPlan => {
+  const known = new Set(existing.map(s => s.id));
+  const added: EspressoShot[] = [];
+  const duplicates: EspressoShot[] = [];
+  incoming.shots.forEach(shot => {
+    if (known.has(shot.id)) {
+      duplicates.push(shot);
+    } else {
+      known.add(shot.id);
+      added.push(shot);
+    }
+  });
+  return { added, duplicates, dropped: incoming.dropped };
+};
+
+// Neueste zuerst, wie im Journal. Vorhandene IDs gewinnen – etwa wenn ein importierter
+// Shot später noch einmal aus dem Papierkorb wiederhergestellt wird
+export const mergeShots = (existing: EspressoShot[], added: EspressoShot[]): EspressoShot[] => {
+  const known = new Set(existing.map(s => s.id));
+  const fresh = added.filter(shot => {
+    if (known.has(shot.id)) return false;
+    known.add(shot.id);
+    return true;
+  });
+  return [...existing, ...fresh].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Erst freigeben, nachdem der Browser den Download übernommen hat
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,56 @@
+import { EspressoShot } from "../types.ts";
+
+export type Strength = 'weak' | 'ideal' | 'strong';
+export type ExtractionLevel = 'under' | 'ideal' | 'over';
+
+// Zielfenster für Espresso nach Refraktometer; das SCA-Chart gilt für Filter, die Achsen sind dieselben
+export const TARGET_TDS = { min: 8, max: 12 }; // %
+export const TARGET_EY = { min: 18, max: 22 }; // %
+
+// Hilfslinien im Control Chart: TDS = EY / Ratio
+export const CONTROL_RATIOS = [1.5, 2, 2.5, 3];
+
+export const STRENGTH_LABEL: Record<Strength, string> = {
+  weak: 'dünn',
+  ideal: 'im Ziel',
+  strong: 'konzentriert',
+};
+
+export const EXTRACTION_LABEL: Record<ExtractionLevel, string> = {
+  under: 'unterextrahiert',
+  ideal: 'im Ziel',
+  over: 'überextrahiert',
+};
+
+/**
+ * Extraktionsausbeute in % aus Getränkegewicht, TDS und Dosis.
+ * null, solange kein TDS gemessen wurde.
+ */
+export const getExtractionYield = (shot: Pick<EspressoShot, 'dose' | 'yield' | 'tds'>): number | null => {
+  if (!shot.tds || shot.dose <= 0) return null;
+  return Math.round((shot.yield * shot.tds / shot.dose) * 10) / 10;
+};
+
+const band = (value: number, range: { min: number; max: number }) =>
+  value < range.min ? -1 : value > range.max ? 1 : 0;
+
+export const classifyStrength = (tds: number): Strength => (['weak', 'ideal', 'strong'] as const)[band(tds, TARGET_TDS) + 1];
+
+export const classifyExtraction = (ey: number): ExtractionLevel => (['under', 'ideal', 'over'] as const)[band(ey, TARGET_EY) + 1];
+
+export interface ExtractionReading {
+  tds: number;
+  ey: number;
+  strength: Strength;
+  extraction: ExtractionLevel;
+}
+
+export const getExtractionReading = (shot: Pick<EspressoShot, 'dose' | 'yield' | 'tds'>): ExtractionReading | null => {
+  const ey = getExtractionYield(shot);
+  if (ey === null || !shot.tds) return null;
+  return { tds: shot.tds, ey, strength: classifyStrength(shot.tds), extraction: classifyExtraction(ey) };
+};
+
+export const describeExtraction = (reading: ExtractionReading): string => {
+  return `TDS ${reading.tds}% (${STRENGTH_LABEL[reading.strength]}), Extraktion ${reading.ey}% (${EXTRACTION_LABEL[reading.extraction]})`;
+};
@@ -1,12 +1,67 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { EspressoShot, DialInAdvice, CoffeeSearchRecommendation } from "../types.ts";
+import { EspressoShot, DialInAdvice, DialInAdjustment, CoffeeSearchRecommendation, GrindChange, EquipmentProfile, MachineProfile } from "../types.ts";
+import { getGrindChange } from "./sessionService.ts";
+import { getOfflineAdvice } from "./offlineCoach.ts";
+import { BUILT_IN_PROFILES, describeEquipment, formatTempSetting, getTempOptions } from "./equipmentService.ts";
+import { AdviceProvider, canReachProvider, getActiveProvider, JsonSchema } from "./aiProvider.ts";
+import { extractJsonObject, normalizeTempSetting, parseSearchResponse, SEARCH_LIMITS } from "./searchResponseService.ts";
+import { describeExtraction, getExtractionReading, TARGET_EY, TARGET_TDS } from "./extractionService.ts";
+
+// Anzahl vorheriger Shots derselben Bohne, die der Coach als Verlauf bekommt
+export const ADVICE_HISTORY_LIMIT = 5;
+
+const GRIND_DIRECTION_LABEL: Record<GrindChange['direction'], string> = {
+  finer: 'feiner',
+  coarser: 'gröber',
+  unchanged: 'unverändert',
+  unknown: 'unbekannt',
+};
+
+const describeGrindChange = (change: GrindChange): string => {
+  if (change.amount === null || change.direction === 'unchanged') return GRIND_DIRECTION_LABEL[change.direction];
+  return `${GRIND_DIRECTION_LABEL[change.direction]} um ${change.amount}`;
+};
+
+// Erlaubte Temperaturwerte als Prompt-Hinweis, z.B. '"0" | "I" | "II"' oder 'Zahl in °C'
+const describeTempValues = (machine: MachineProfile): string => {
+  const options = getTempOptions(machine);
+  return options ? options.map(o => `"${o}"`).join(' | ') : '"Zahl in °C"';
+};
+
+const describeFirstDrop = (shot: EspressoShot): string => {
+  return shot.timing ? ` (erster Tropfen nach ${shot.timing.preinfusion}s, Kontaktzeit ${shot.timing.total}s)` : '';
+};
+
+// Refraktometer-Werte, falls gemessen, z.B. " • TDS 9.5% (im Ziel), Extraktion 19.8% (im Ziel)"
+const describeMeasurement = (shot: EspressoShot): string => {
+  const reading = getExtractionReading(shot);
+  return reading ? ` • ${describeExtraction(reading)}` : '';
+};
+
+const formatHistoryEntry = (shot: EspressoShot, index: number, machine: MachineProfile, previous?: EspressoShot): string => {
+  const f = shot.flavorProfile;
+  const lines = [
+    `#${index + 1}: Mahlgrad ${shot.grindSetting || 'n.a.'} (${describeGrindChange(getGrindChange(previous, shot))}), ${shot.dose}g → ${shot.yield}g in ${shot.time}s${describeFirstDrop(shot)}, ${formatTempSetting(machine, shot.tempSetting)}${describeMeasurement(shot)}`,
+    `    Geschmack: Säure ${f.sourness}, Bitterkeit ${f.bitterness}, Körper ${f.body}, Süße ${f.sweetness}, Gesamt ${f.overall}`,
+  ];
+  if (shot.advice) lines.push(`    Damaliger Rat: ${shot.advice.adjustment} – ${shot.advice.recommendation}`);
+  return lines.join("\n");
+};
+
+export const searchCoffeeParameters = async (
+  query: string,
+  equipment: EquipmentProfile = BUILT_IN_PROFILES[0],
+  provider: AdviceProvider = getActiveProvider()
+): Promise<CoffeeSearchRecommendation> => {
+  if (!provider.isConfigured()) {
+    return { found: false, sources: [], description: "Kein API Key vorhanden. Bitte Setup durchführen." };
+  }
+  if (!canReachProvider(provider)) {
+    return { found: false, sources: [], description: "Keine Verbindung. Die Rezeptsuche braucht Internet." };
+  }
 
-export const searchCoffeeParameters = async (query: string): Promise<CoffeeSearchRecommendation> => {
-  // Wir erstellen die Instanz erst beim Aufruf, um sicherzustellen, dass der aktuellste Key genutzt wird
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `Suche nach Brühparametern (Brew Guide) für diesen Kaffee: "${query}". 
+  Priorisiere Quellen von Röstern oder Foren wie Kaffee-Netz/Home-Barista.
   Antworte ausschließlich in folgendem JSON-Format:
   {
     "found": boolean,
@@ -14,95 +69,188 @@ export const searchCoffeeParameters = async (query: string): Promise<CoffeeSearc
     "yield": number,
     "time": number,
     "temperature": "string",
-    "maraXSetting": "0" | "I" | "II",
+    "tempSetting": ${describeTempValues(equipment.machine)},
     "description": "string"
   }
-  Falls es eine Lelit Mara X spezifische Empfehlung gibt, nenne die PID-Stufe (0, I, II). Wenn nichts gefunden wird, setze 'found' auf false.`;
+  Setup des Nutzers:
+  ${describeEquipment(equipment)}
+  Übertrage die empfohlene Brühtemperatur auf die Temperatureinstellung dieser Maschine (tempSetting). Wenn nichts gefunden wird, setze 'found' auf false.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: "Du bist ein Barista-Experte. Suche online nach Rezepten. Antworte in validem JSON.",
-        // Wir lassen responseMimeType weg, da Search Grounding oft Text mit Quellenangaben zurückgibt, 
-        // was das strikte JSON-Parsing der API zum Absturz bringen kann.
-      },
+    const { text, sources } = await provider.generate({
+      prompt,
+      search: true,
+      // Ohne eigene Websuche antwortet das Modell aus seinem Wissen
+      system: provider.canSearch
+        ? "Du bist ein Barista-Experte. Suche online nach Rezepten. Antworte in validem JSON."
+        : "Du bist ein Barista-Experte. Antworte aus deinem Wissen über Röstereien und Rezepte in validem JSON.",
     });
 
-    const text = response.text;
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.map((chunk: any) => ({
-        title: chunk.web?.title || "Quelle",
-        uri: chunk.web?.uri || ""
-      }))
-      .filter((s: any) => s.uri) || [];
-
-    // JSON aus dem Text extrahieren (falls die KI Markdown-Codeblöcke nutzt)
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    const jsonData = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
-
-    if (jsonData) {
-      return { ...jsonData, sources };
-    }
-    return { found: false, sources };
+    // JSON aus dem Text extrahieren, prüfen und normalisieren – auch bei Markdown-Codeblöcken
+    return { ...parseSearchResponse(text, equipment.machine), sources };
   } catch (e) {
     console.error("Search API Error:", e);
-    return { found: false, sources: [] };
+    return { found: false, sources: [], description: "API Fehler: " + (e as Error).message };
   }
 };
 
-export const getBaristaAdvice = async (shot: EspressoShot): Promise<DialInAdvice> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Antwortformat des Coaches als JSON Schema, für alle Anbieter gleich
+const adviceSchema = (equipment: EquipmentProfile): JsonSchema => {
+  const tempOptions = getTempOptions(equipment.machine);
+  return {
+    type: "object",
+    properties: {
+      diagnosis: { type: "string" },
+      recommendation: { type: "string" },
+      adjustment: { type: "string" },
+      explanation: { type: "string" },
+      trajectory: { type: "string" },
+      lastGrindChange: {
+        type: "object",
+        properties: {
+          direction: { type: "string", enum: ["finer", "coarser", "unchanged", "unknown"] },
+          amount: { type: ["number", "null"] }
+        },
+        required: ["direction"]
+      },
+      nextShot: {
+        type: "object",
+        properties: {
+          grindDelta: { type: "number", description: `Mahlgradänderung auf der Skala der ${equipment.grinder.name} (Schrittweite ${equipment.grinder.scaleStep}), negativ = feiner, 0 = unverändert` },
+          targetDose: { type: "number", description: "Dosis in Gramm" },
+          targetYield: { type: "number", description: "Ertrag in Gramm" },
+          targetTime: { type: "number", description: "Zielzeit in Sekunden" },
+          tempSetting: tempOptions
+            ? { type: "string", enum: tempOptions }
+            : { type: "string", description: "Brühtemperatur in °C" }
+        },
+        required: ["grindDelta", "targetDose", "targetYield", "targetTime", "tempSetting"]
+      }
+    },
+    required: ["diagnosis", "recommendation", "adjustment", "explanation", "trajectory", "nextShot"]
+  };
+};
+
+// Zahlen tolerant lesen: lokale Modelle liefern gern "-0,2" oder "18 g" statt 18
+const toAdviceNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.replace(',', '.').match(/[-+]?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const withinLimits = (value: number | null, field: keyof typeof SEARCH_LIMITS): number | null => {
+  const { min, max } = SEARCH_LIMITS[field];
+  return value !== null && value >= min && value <= max ? value : null;
+};
+
+/**
+ * Prüft das Rezept für den nächsten Shot, bevor es ins Formular übernommen wird.
+ * Fehlt eine Zahl oder ist sie unplausibel, entfällt nextShot ganz – ein halbes
+ * Rezept wäre irreführender als keines. Eine unbrauchbare Temperatur bleibt unverändert.
+ */
+const normalizeNextShot = (raw: unknown, shot: EspressoShot, equipment: EquipmentProfile): DialInAdjustment | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = raw as Record<string, unknown>;
+  const grindDelta = toAdviceNumber(data.grindDelta);
+  const targetDose = withinLimits(toAdviceNumber(data.targetDose), 'dose');
+  const targetYield = withinLimits(toAdviceNumber(data.targetYield), 'yield');
+  const targetTime = withinLimits(toAdviceNumber(data.targetTime), 'time');
+  if (grindDelta === null || targetDose === null || targetYield === null || targetTime === null) return undefined;
+  // Auf die Schrittweite der Mühle runden, sonst entstehen Mahlgrade wie 2.4000000001
+  const step = equipment.grinder.scaleStep > 0 ? equipment.grinder.scaleStep : 0.1;
+  return {
+    grindDelta: Math.round(Math.round(grindDelta / step) * step * 100) / 100,
+    targetDose,
+    targetYield,
+    targetTime: Math.round(targetTime),
+    tempSetting: normalizeTempSetting(data.tempSetting, equipment.machine) ?? shot.tempSetting,
+  };
+};
+
+const GRIND_DIRECTIONS = Object.keys(GRIND_DIRECTION_LABEL) as GrindChange['direction'][];
+
+const normalizeGrindChange = (raw: unknown): GrindChange | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { direction, amount } = raw as Record<string, unknown>;
+  if (!GRIND_DIRECTIONS.includes(direction as GrindChange['direction'])) return undefined;
+  return { direction: direction as GrindChange['direction'], amount: toAdviceNumber(amount) };
+};
+
+const adviceText = (value: unknown): string => typeof value === 'string' ? value : '';
+
+export const getBaristaAdvice = async (
+  shot: EspressoShot,
+  history: EspressoShot[] = [],
+  equipment: EquipmentProfile = BUILT_IN_PROFILES[0],
+  provider: AdviceProvider = getActiveProvider()
+): Promise<DialInAdvice> => {
+  // Ohne Konfiguration oder Netz gar nicht erst versuchen, sondern direkt lokal analysieren
+  if (!canReachProvider(provider)) return getOfflineAdvice(shot, history, equipment);
+
+  const previous = history[history.length - 1];
+  const lastGrindChange = getGrindChange(previous, shot);
+  const reading = getExtractionReading(shot);
+  const historyText = history.length > 0
+    ? history.map((h, i) => formatHistoryEntry(h, i, equipment.machine, history[i - 1])).join("\n")
+    : "Keine – dies ist der erste Shot dieser Bohne.";
   
   const prompt = `
     Analysiere diesen Espresso-Shot basierend auf folgendem Setup:
-    Maschine: Lelit Mara X (E61 Gruppe, PID-Stufe: ${shot.maraXTempSetting})
-    Mühle: Varia VS3 (Single Dosing, stufenlos)
+    ${describeEquipment(equipment)}
+    Temperatur: ${formatTempSetting(equipment.machine, shot.tempSetting)}
     
     Shot-Daten:
     Bohne: ${shot.beanName}
     Dosis (In): ${shot.dose}g
     Ertrag (Out): ${shot.yield}g
-    Zeit: ${shot.time}s
-    Eingestellter Mahlgrad: ${shot.grindSetting}
+    Zeit: ${shot.time}s${describeFirstDrop(shot)}
+    Eingestellter Mahlgrad: ${shot.grindSetting} (gegenüber letztem Shot: ${describeGrindChange(lastGrindChange)})
+    Refraktometer: ${reading ? describeExtraction(reading) : 'nicht gemessen'}
     
     Geschmacksprofil (1-5):
     Säure: ${shot.flavorProfile.sourness}
     Bitterkeit: ${shot.flavorProfile.bitterness}
     Körper: ${shot.flavorProfile.body}
     Süße: ${shot.flavorProfile.sweetness}
+    Gesamt: ${shot.flavorProfile.overall}
+
+    Bisheriger Verlauf mit dieser Bohne (ältester zuerst):
+    ${historyText}
+
+    ${reading ? `Zielfenster: TDS ${TARGET_TDS.min}–${TARGET_TDS.max}%, Extraktion ${TARGET_EY.min}–${TARGET_EY.max}%. Die gemessene Extraktion hat Vorrang vor der Zeit: Niedrige Extraktion bedeutet Unterextraktion (feiner mahlen), ein dünner Shot bei guter Extraktion ist nur zu schwach (Ertrag senken statt Mahlgrad ändern).` : ''}
+    Ein sehr früher erster Tropfen deutet auf Channeling hin, ein sehr später auf zu feinen Mahlgrad oder zu hohe Dosis.
+    Bewerte den gesamten Verlauf: Welche Änderungen haben geholfen, welche nicht?
+    Schlage nicht vor, eine Änderung rückgängig zu machen, die den Geschmack verbessert hat.
+    Gib im Feld nextShot das konkrete Rezept für den nächsten Shot an.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        systemInstruction: "Du bist ein Barista-Experte für Lelit Mara X und Varia VS3. Gib prägnante, deutsche Tipps im JSON-Format.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            diagnosis: { type: Type.STRING },
-            recommendation: { type: Type.STRING },
-            adjustment: { type: Type.STRING },
-            explanation: { type: Type.STRING }
-          },
-          required: ["diagnosis", "recommendation", "adjustment", "explanation"]
-        }
-      }
+    const { text } = await provider.generate({
+      prompt,
+      system: `Du bist ein Barista-Experte für ${equipment.machine.name} und ${equipment.grinder.name}. Du begleitest eine Dial-In Session und berücksichtigst alle bisherigen Shots und Ratschläge. Gib prägnante, deutsche Tipps im JSON-Format.`,
+      schema: adviceSchema(equipment),
     });
 
-    return JSON.parse(response.text.trim()) as DialInAdvice;
-  } catch (error) {
-    console.error("Advice API Error:", error);
+    // Lokale Modelle umschließen JSON gern mit Markdown, daher nicht blind JSON.parse
+    const data = extractJsonObject(text) as Record<string, unknown> | null;
+    if (!data || typeof data.diagnosis !== 'string') throw new Error("Antwort ohne gültige Analyse");
+    const advice: DialInAdvice = {
+      diagnosis: data.diagnosis,
+      recommendation: adviceText(data.recommendation),
+      adjustment: adviceText(data.adjustment),
+      explanation: adviceText(data.explanation),
+      trajectory: typeof data.trajectory === 'string' ? data.trajectory : undefined,
+      nextShot: normalizeNextShot(data.nextShot, shot, equipment),
+      source: provider.kind,
+    };
+    // Die gemessene Mahlgradbewegung hat Vorrang vor der Einschätzung des Modells
     return {
-      diagnosis: "Analyse momentan nicht möglich.",
-      recommendation: "Mahlgrad nach Gefühl anpassen.",
-      adjustment: "Leicht feiner/gröber probieren.",
-      explanation: "Keine Verbindung zum Barista-Server."
+      ...advice,
+      lastGrindChange: lastGrindChange.direction !== 'unknown' ? lastGrindChange : normalizeGrindChange(data.lastGrindChange) ?? lastGrindChange
     };
+  } catch (error) {
+    console.error("Advice API Error:", error);
+    return getOfflineAdvice(shot, history, equipment);
   }
 };
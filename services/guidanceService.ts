@@ -0,0 +1,121 @@
+export interface ShotTargets {
+  timeMin: number; // Sekunden ab erstem Tropfen
+  timeMax: number;
+  yield?: number; // Gramm
+  preinfusion?: number; // Sekunden von Pumpe Start bis erster Tropfen
+}
+
+export type PacingStatus = 'on-track' | 'fast' | 'slow' | 'unknown';
+
+export interface LiveShotState {
+  phase: 'pumping' | 'extracting';
+  elapsed: number; // Sekunden seit erstem Tropfen
+  pumpTime: number; // Sekunden seit Pumpe Start, ab dem ersten Tropfen eingefroren
+  weight?: number; // nur mit Waage
+  flow?: number; // g/s, nur mit Waage
+}
+
+// Zeitfenster um die Rezeptzeit, falls das Rezept nur einen Zielwert kennt
+export const TIME_TOLERANCE = 2;
+// Vorwarnung so viele Sekunden vor dem Ziel
+export const CUE_LEAD_SECONDS = 3;
+const PREINFUSION_TOLERANCE = 2;
+
+export const targetsFromRecipe = (time: number | undefined, yieldGrams: number | undefined, preinfusion?: number): ShotTargets | undefined => {
+  if (!time || time <= 0) return undefined;
+  return {
+    timeMin: Math.max(0, time - TIME_TOLERANCE),
+    timeMax: time + TIME_TOLERANCE,
+    yield: yieldGrams && yieldGrams > 0 ? yieldGrams : undefined,
+    preinfusion,
+  };
+};
+
+const targetTime = (targets: ShotTargets) => (targets.timeMin + targets.timeMax) / 2;
+
+const canProjectByWeight = (live: LiveShotState, targets: ShotTargets): boolean => {
+  return Boolean(targets.yield && live.weight !== undefined && live.flow && live.flow > 0.2);
+};
+
+/**
+ * Hochrechnung, wann das Zielgewicht erreicht ist. Ohne Waage bleibt nur die
+ * Rezeptzeit als Ziel.
+ */
+export const projectFinishTime = (live: LiveShotState, targets: ShotTargets): number => {
+  if (canProjectByWeight(live, targets)) {
+    return live.elapsed + Math.max(0, targets.yield! - live.weight!) / live.flow!;
+  }
+  return targetTime(targets);
+};
+
+/**
+ * Zeit bis zum ersten Tropfen gegen das Rezept. Ohne Waage das einzige frühe
+ * Signal: zu früh heißt zu grob, zu spät zu fein. "fast" steht erst fest, wenn
+ * der Tropfen tatsächlich kam.
+ */
+const getFirstDropPacing = (live: LiveShotState, targets: ShotTargets): PacingStatus => {
+  if (targets.preinfusion === undefined) return 'unknown';
+  if (live.pumpTime > targets.preinfusion + PREINFUSION_TOLERANCE) return 'slow';
+  if (live.phase === 'extracting' && live.pumpTime < targets.preinfusion - PREINFUSION_TOLERANCE) return 'fast';
+  return 'on-track';
+};
+
+export const getPacing = (live: LiveShotState, targets: ShotTargets): PacingStatus => {
+  if (live.phase === 'pumping') return getFirstDropPacing(live, targets);
+  if (live.elapsed > targets.timeMax) return 'slow';
+  if (canProjectByWeight(live, targets)) {
+    // Erste Sekunden sind zu unruhig für eine Prognose
+    if (live.elapsed < 5) return 'unknown';
+    const finish = projectFinishTime(live, targets);
+    if (finish > targets.timeMax) return 'slow';
+    if (finish < targets.timeMin) return 'fast';
+    return 'on-track';
+  }
+  const firstDrop = getFirstDropPacing(live, targets);
+  return firstDrop === 'unknown' ? 'on-track' : firstDrop;
+};
+
+// 0–1 für den Fortschrittsring: nach Gewicht, wenn möglich, sonst nach Zeit
+export const getProgress = (live: LiveShotState, targets: ShotTargets): number => {
+  if (live.phase === 'pumping') {
+    return targets.preinfusion ? Math.min(1, live.pumpTime / targets.preinfusion) : 0;
+  }
+  if (targets.yield && live.weight !== undefined) return Math.min(1, Math.max(0, live.weight / targets.yield));
+  return Math.min(1, live.elapsed / targetTime(targets));
+};
+
+export const shouldCue = (live: LiveShotState, targets: ShotTargets): boolean => {
+  if (live.phase !== 'extracting' || live.elapsed < 5) return false;
+  return projectFinishTime(live, targets) - live.elapsed <= CUE_LEAD_SECONDS;
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browser erlauben Audio nur nach einer Nutzeraktion – deshalb beim Pumpe-Start vorbereiten
+export const primeCue = () => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    audioContext.resume().catch(() => {});
+  } catch {
+    audioContext = null;
+  }
+};
+
+// Kurzer Doppelton plus Vibration, wo das Gerät es kann
+export const playCue = () => {
+  navigator.vibrate?.([120, 80, 120]);
+  try {
+    audioContext = audioContext || new AudioContext();
+    [0, 0.2].forEach(offset => {
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain).connect(audioContext!.destination);
+      oscillator.start(audioContext!.currentTime + offset);
+      oscillator.stop(audioContext!.currentTime + offset + 0.12);
+    });
+  } catch (e) {
+    console.error("Signalton nicht möglich:", e);
+  }
+};
@@ -0,0 +1,137 @@
+import { EspressoShot } from "../types.ts";
+
+export type JournalSort = 'newest' | 'oldest' | 'rating' | 'time' | 'ratio';
+export type JournalPeriod = 'week' | 'month' | 'year';
+export type RatioBand = 'ristretto' | 'normale' | 'lungo';
+
+export interface JournalFilter {
+  query: string; // Volltext über Bohne und Notizen
+  bean: string;
+  from: string; // ISO-Datum, inklusiv
+  to: string;
+  period: JournalPeriod | ''; // Relativer Zeitraum, hat Vorrang vor from/to
+  tempSetting: string;
+  minRating: number; // 0 = alle
+  ratio: RatioBand | '';
+  sort: JournalSort;
+}
+
+export const EMPTY_FILTER: JournalFilter = {
+  query: '', bean: '', from: '', to: '', period: '', tempSetting: '', minRating: 0, ratio: '', sort: 'newest',
+};
+
+export const SORT_LABEL: Record<JournalSort, string> = {
+  newest: 'Neueste',
+  oldest: 'Älteste',
+  rating: 'Bewertung',
+  time: 'Zeit',
+  ratio: 'Ratio',
+};
+
+export const PERIOD_LABEL: Record<JournalPeriod, string> = {
+  week: '7 Tage',
+  month: 'Dieser Monat',
+  year: 'Dieses Jahr',
+};
+
+// Verhältnis Out/In, obere Grenze exklusiv
+export const RATIO_BANDS: Record<RatioBand, { label: string; min: number; max: number }> = {
+  ristretto: { label: 'Ristretto < 1:1.5', min: 0, max: 1.5 },
+  normale: { label: 'Normale 1:1.5–2.5', min: 1.5, max: 2.5 },
+  lungo: { label: 'Lungo > 1:2.5', min: 2.5, max: Infinity },
+};
+
+// Kurze Parameternamen, damit gebookmarkte URLs lesbar bleiben
+const PARAMS: Record<keyof JournalFilter, string> = {
+  query: 'q', bean: 'bean', from: 'from', to: 'to', period: 'period', tempSetting: 'temp', minRating: 'rating', ratio: 'ratio', sort: 'sort',
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[]): T | '' => {
+  return value && (allowed as readonly string[]).includes(value) ? value as T : '';
+};
+
+// Nur echte Kalenderdaten im Format des Datumsfelds, sonst bliebe "2024-02-31" im Filter stehen
+const isoDate = (value: string | null): string => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return '';
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : '';
+};
+
+export const parseFilter = (search: string): JournalFilter => {
+  const params = new URLSearchParams(search);
+  const rating = Number(params.get(PARAMS.minRating));
+  return {
+    query: params.get(PARAMS.query) || '',
+    bean: params.get(PARAMS.bean) || '',
+    from: isoDate(params.get(PARAMS.from)),
+    to: isoDate(params.get(PARAMS.to)),
+    period: oneOf(params.get(PARAMS.period), Object.keys(PERIOD_LABEL) as JournalPeriod[]),
+    tempSetting: params.get(PARAMS.tempSetting) || '',
+    minRating: Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : 0,
+    ratio: oneOf(params.get(PARAMS.ratio), Object.keys(RATIO_BANDS) as RatioBand[]),
+    sort: oneOf(params.get(PARAMS.sort), Object.keys(SORT_LABEL) as JournalSort[]) || 'newest',
+  };
+};
+
+// Standardwerte werden weggelassen, fremde Parameter bleiben erhalten
+export const serializeFilter = (filter: JournalFilter, search: string = ''): string => {
+  const params = new URLSearchParams(search);
+  (Object.keys(PARAMS) as (keyof JournalFilter)[]).forEach(key => {
+    const value = filter[key];
+    if (value === EMPTY_FILTER[key] || value === '') params.delete(PARAMS[key]);
+    else params.set(PARAMS[key], String(value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const isFilterActive = (filter: JournalFilter): boolean => {
+  return (Object.keys(EMPTY_FILTER) as (keyof JournalFilter)[])
+    .some(key => key !== 'sort' && filter[key] !== EMPTY_FILTER[key]);
+};
+
+const periodStart = (period: JournalPeriod, now: Date): number => {
+  if (period === 'week') return now.getTime() - 7 * 24 * 60 * 60 * 1000;
+  if (period === 'month') return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  return new Date(now.getFullYear(), 0, 1).getTime();
+};
+
+const dateRange = (filter: JournalFilter, now: Date): [number, number] => {
+  if (filter.period) return [periodStart(filter.period, now), Infinity];
+  // Datumsfelder in lokaler Zeit, "bis" schließt den ganzen Tag ein
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  return [Number.isNaN(from) ? -Infinity : from, Number.isNaN(to) ? Infinity : to];
+};
+
+const ratioOf = (shot: EspressoShot) => shot.dose > 0 ? shot.yield / shot.dose : 0;
+
+const SORTERS: Record<JournalSort, (a: EspressoShot, b: EspressoShot) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  rating: (a, b) => b.flavorProfile.overall - a.flavorProfile.overall || b.timestamp - a.timestamp,
+  time: (a, b) => a.time - b.time || b.timestamp - a.timestamp,
+  ratio: (a, b) => ratioOf(a) - ratioOf(b) || b.timestamp - a.timestamp,
+};
+
+export const applyFilter = (shots: EspressoShot[], filter: JournalFilter, now: Date = new Date()): EspressoShot[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const bean = filter.bean.toLowerCase();
+  const [from, to] = dateRange(filter, now);
+  const band = filter.ratio ? RATIO_BANDS[filter.ratio] : null;
+
+  return shots
+    .filter(shot => {
+      if (terms.length > 0) {
+        const text = `${shot.beanName} ${shot.notes}`.toLowerCase();
+        if (!terms.every(term => text.includes(term))) return false;
+      }
+      if (bean && shot.beanName.toLowerCase() !== bean) return false;
+      if (shot.timestamp < from || shot.timestamp > to) return false;
+      if (filter.tempSetting && shot.tempSetting !== filter.tempSetting) return false;
+      if (filter.minRating && shot.flavorProfile.overall < filter.minRating) return false;
+      if (band && (ratioOf(shot) < band.min || ratioOf(shot) >= band.max)) return false;
+      return true;
+    })
+    .sort(SORTERS[filter.sort]);
+};
@@ -0,0 +1,128 @@
+import { DialInAdjustment, DialInAdvice, EquipmentProfile, EspressoShot } from "../types.ts";
+import { getGrindChange } from "./sessionService.ts";
+import { BUILT_IN_PROFILES, formatTempSetting, shiftTempSetting } from "./equipmentService.ts";
+import { ExtractionReading, getExtractionReading, Strength, TARGET_TDS } from "./extractionService.ts";
+
+// Zielkorridor für einen klassischen Espresso
+export const TARGET_TIME = { min: 25, max: 32 };
+export const TARGET_RATIO = { min: 1.8, max: 2.5 };
+
+// Größte Mahlgradkorrektur pro Shot, in Schritten der Mühle
+const MAX_GRIND_STEPS = 10;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+type Extraction = 'under' | 'over' | 'balanced';
+
+// Messung schlägt Geschmack, Geschmack schlägt Zeit: ein schneller, aber ausgewogener Shot ist kein Fehler
+const classify = (shot: EspressoShot, reading: ExtractionReading | null): Extraction => {
+  if (reading) return reading.extraction === 'ideal' ? 'balanced' : reading.extraction;
+  const { sourness, bitterness, sweetness } = shot.flavorProfile;
+  const tasteBias = sourness - bitterness;
+  if (tasteBias >= 2 || (tasteBias >= 1 && sweetness <= 2)) return 'under';
+  if (tasteBias <= -2 || (tasteBias <= -1 && sweetness <= 2)) return 'over';
+  if (tasteBias === 0 && sweetness >= 3) return 'balanced';
+  if (shot.time < TARGET_TIME.min - 3) return 'under';
+  if (shot.time > TARGET_TIME.max + 3) return 'over';
+  return tasteBias > 0 ? 'under' : tasteBias < 0 ? 'over' : 'balanced';
+};
+
+const DIAGNOSIS: Record<Extraction, string> = {
+  under: 'Unterextraktion: Der Shot wirkt sauer und dünn, es wurde zu wenig gelöst.',
+  over: 'Überextraktion: Bitterkeit und Adstringenz dominieren, es wurde zu viel gelöst.',
+  balanced: 'Ausgewogene Extraktion: Säure und Bitterkeit sind im Gleichgewicht.',
+};
+
+// Gleichmäßig extrahiert, aber Konzentration außerhalb des Zielfensters
+const STRENGTH_DIAGNOSIS: Record<Exclude<Strength, 'ideal'>, string> = {
+  weak: 'Gleichmäßig extrahiert, aber zu dünn: Die Extraktion stimmt, der Shot ist nur zu stark verdünnt.',
+  strong: 'Gleichmäßig extrahiert, aber sehr konzentriert: Die Extraktion stimmt, der Shot ist nur zu kurz gezogen.',
+};
+
+/**
+ * Deterministische Dial-In Diagnose ohne Netzwerk. Arbeitet mit Ratio, Zeit und
+ * Geschmacksprofil, bei vorhandener Refraktometer-Messung mit TDS und Extraktion,
+ * und liefert dasselbe DialInAdvice-Format wie der Gemini-Coach.
+ */
+export const getOfflineAdvice = (
+  shot: EspressoShot,
+  history: EspressoShot[] = [],
+  equipment: EquipmentProfile = BUILT_IN_PROFILES[0]
+): DialInAdvice => {
+  const { machine, grinder } = equipment;
+  const ratio = shot.dose > 0 ? shot.yield / shot.dose : 2;
+  const reading = getExtractionReading(shot);
+  const extraction = classify(shot, reading);
+  const targetMid = (TARGET_TIME.min + TARGET_TIME.max) / 2;
+
+  // Richtung aus dem Geschmack, bei ausgewogenem Geschmack aus der Zeit; negativ = feiner.
+  // Eine gemessene Extraktion im Ziel bleibt beim Mahlgrad, egal wie lange der Shot lief.
+  const direction = extraction === 'under' ? -1
+    : extraction === 'over' ? 1
+    : reading ? 0
+    : shot.time < TARGET_TIME.min ? -1
+    : shot.time > TARGET_TIME.max ? 1
+    : 0;
+  // Zeitabweichung über die Kalibrierung der Mühle in Skalenschritte umrechnen, mindestens ein Schritt
+  const steps = clamp(Math.round(Math.abs(targetMid - shot.time) / grinder.secondsPerStep), 1, MAX_GRIND_STEPS);
+  const grindDelta = direction * steps * grinder.scaleStep;
+
+  let targetYield = shot.yield;
+  if (ratio < TARGET_RATIO.min && extraction === 'under') targetYield = round1(shot.dose * TARGET_RATIO.min);
+  if (ratio > TARGET_RATIO.max && extraction === 'over') targetYield = round1(shot.dose * TARGET_RATIO.max);
+  // Stärke über den Ertrag korrigieren: TDS ≈ EY × Dosis / Ertrag
+  const offStrength = reading && extraction === 'balanced' && reading.strength !== 'ideal' ? reading.strength : null;
+  if (reading && offStrength) targetYield = round1(shot.dose * reading.ey / ((TARGET_TDS.min + TARGET_TDS.max) / 2));
+
+  // Temperatur nur bei klarer Geschmackstendenz im Zeitfenster anfassen
+  const inTimeWindow = shot.time >= TARGET_TIME.min && shot.time <= TARGET_TIME.max;
+  let temp = shot.tempSetting;
+  if (inTimeWindow && extraction === 'under') temp = shiftTempSetting(machine, temp, 1);
+  if (inTimeWindow && extraction === 'over') temp = shiftTempSetting(machine, temp, -1);
+
+  const nextShot: DialInAdjustment = {
+    grindDelta: Number(grindDelta.toFixed(2)),
+    targetDose: shot.dose,
+    targetYield,
+    targetTime: Math.round(targetMid),
+    tempSetting: temp,
+  };
+
+  const previous = history[history.length - 1];
+  const lastGrindChange = getGrindChange(previous, shot);
+
+  const changes: string[] = [];
+  if (nextShot.grindDelta < 0) changes.push(`${Math.abs(nextShot.grindDelta)} feiner mahlen`);
+  if (nextShot.grindDelta > 0) changes.push(`${nextShot.grindDelta} gröber mahlen`);
+  if (targetYield !== shot.yield) changes.push(`Ertrag auf ${targetYield}g`);
+  if (temp !== shot.tempSetting) changes.push(`${formatTempSetting(machine, temp)} einstellen`);
+  const adjustment = changes.length > 0 ? changes.join(', ') : 'Rezept beibehalten';
+
+  let trajectory = 'Erster Shot dieser Bohne – noch kein Verlauf.';
+  if (previous) {
+    const diff = shot.flavorProfile.overall - previous.flavorProfile.overall;
+    trajectory = diff > 0
+      ? 'Die letzte Änderung hat geholfen – in dieselbe Richtung weiterarbeiten.'
+      : diff < 0
+        ? 'Die letzte Änderung hat den Geschmack verschlechtert – kleinere Schritte wählen.'
+        : 'Kein spürbarer Unterschied zum letzten Shot.';
+  }
+
+  return {
+    diagnosis: offStrength ? STRENGTH_DIAGNOSIS[offStrength] : DIAGNOSIS[extraction],
+    recommendation: offStrength
+      ? `Mahlgrad beibehalten und nur den Ertrag anpassen, Ziel TDS ${TARGET_TDS.min}–${TARGET_TDS.max}%.`
+      : extraction === 'balanced' && nextShot.grindDelta === 0
+      ? 'Der Shot liegt im Zielkorridor. Wiederhole das Rezept zur Bestätigung.'
+      : `Ratio 1:${ratio.toFixed(1)} in ${shot.time}s. Ziel: ${TARGET_TIME.min}–${TARGET_TIME.max}s bei 1:${TARGET_RATIO.min}–1:${TARGET_RATIO.max}.`,
+    adjustment,
+    explanation: reading
+      ? `Regelbasierte Offline-Analyse aus Refraktometer-Messung (TDS ${reading.tds}%, Extraktion ${reading.ey}%), Ratio und Geschmacksprofil.`
+      : 'Regelbasierte Offline-Analyse aus Ratio, Zeit und Geschmacksprofil.',
+    trajectory,
+    lastGrindChange,
+    nextShot,
+    source: 'offline',
+  };
+};
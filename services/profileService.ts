@@ -0,0 +1,56 @@
+import { BaristaProfile } from "../types.ts";
+import { DEFAULT_EQUIPMENT_ID } from "./equipmentService.ts";
+import { readCollection } from "./storageService.ts";
+
+const PROFILES_KEY = 'barista_profiles_v1';
+const ACTIVE_PROFILE_KEY = 'barista_profile_active';
+const LEGACY_EQUIPMENT_KEY = 'barista_equipment_selected';
+const LEGACY_API_KEY = 'GEMINI_API_KEY';
+
+// Das erste Profil übernimmt das bisherige, globale Journal unter dem alten Key
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const createProfile = (name: string, equipmentId: string = DEFAULT_EQUIPMENT_ID): BaristaProfile => ({
+  id: Date.now().toString(),
+  name: name.trim(),
+  createdAt: Date.now(),
+  equipmentId,
+});
+
+export const loadProfiles = (): BaristaProfile[] => {
+  const saved = readCollection<BaristaProfile>(PROFILES_KEY);
+  if (saved && saved.length > 0) return saved;
+  return [{
+    id: DEFAULT_PROFILE_ID,
+    name: 'Barista',
+    createdAt: Date.now(),
+    equipmentId: localStorage.getItem(LEGACY_EQUIPMENT_KEY) || DEFAULT_EQUIPMENT_ID,
+    apiKey: localStorage.getItem(LEGACY_API_KEY) || undefined,
+  }];
+};
+
+export const saveProfiles = (profiles: BaristaProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const getActiveProfileId = (): string => {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+};
+
+export const setActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+// Wird von den Services zur Laufzeit gelesen, damit immer der Key des aktiven Baristas gilt
+export const getActiveApiKey = (): string | undefined => {
+  const active = loadProfiles().find(p => p.id === getActiveProfileId());
+  return active?.apiKey || undefined;
+};
+
+export const shotStorageKey = (profileId: string): string => {
+  return profileId === DEFAULT_PROFILE_ID ? 'barista_shots_v3' : `barista_shots_v3:${profileId}`;
+};
+
+export const getInitials = (name: string): string => {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+};
@@ -0,0 +1,178 @@
+import { CoffeeSearchRecommendation, EquipmentProfile, EspressoShot, Recipe } from "../types.ts";
+import { getDefaultTempSetting, isValidTempSetting } from "./equipmentService.ts";
+import { ShotTargets, TIME_TOLERANCE } from "./guidanceService.ts";
+
+// Ausgangsrezept, solange weder Rezept noch Suchergebnis vorliegt
+export const DEFAULT_RECIPE = { dose: 18, yield: 36, timeMin: 23, timeMax: 27 };
+
+const FLAVOR_LABEL: Record<keyof EspressoShot['flavorProfile'], string> = {
+  sourness: 'Säure',
+  bitterness: 'Bitterkeit',
+  body: 'Körper',
+  sweetness: 'Süße',
+  overall: 'Gesamt',
+};
+
+// Abweichungen innerhalb dieser Toleranz gelten als getroffen
+const DOSE_TOLERANCE = 0.3; // g
+const YIELD_TOLERANCE = 1; // g
+const PREINFUSION_TOLERANCE = 2; // s
+
+export const recipeTargetTime = (recipe: Pick<Recipe, 'timeMin' | 'timeMax'>): number => {
+  return Math.round((recipe.timeMin + recipe.timeMax) / 2);
+};
+
+export const createRecipe = (fields: Omit<Recipe, 'id' | 'createdAt'>): Recipe => ({
+  ...fields,
+  id: Date.now().toString(),
+  createdAt: Date.now(),
+});
+
+export const recipeFromShot = (shot: EspressoShot, name: string = shot.beanName): Recipe => createRecipe({
+  name,
+  beanName: shot.beanName,
+  equipmentId: shot.equipmentId,
+  dose: shot.dose,
+  yield: shot.yield,
+  timeMin: Math.max(0, shot.time - TIME_TOLERANCE),
+  timeMax: shot.time + TIME_TOLERANCE,
+  tempSetting: shot.tempSetting,
+  grindSetting: shot.grindSetting,
+  preinfusion: shot.timing?.preinfusion,
+  targetFlavor: { ...shot.flavorProfile },
+  notes: shot.notes,
+  source: 'shot',
+});
+
+// Nennt die Suche nur eine Zielzeit, wird daraus das übliche Fenster
+export const recipeFromSearch = (
+  beanName: string,
+  rec: CoffeeSearchRecommendation,
+  equipment: EquipmentProfile
+): Recipe => {
+  const time = rec.time || recipeTargetTime(DEFAULT_RECIPE);
+  const timeWindow = rec.ranges?.time || { min: Math.max(0, time - TIME_TOLERANCE), max: time + TIME_TOLERANCE };
+  return createRecipe({
+    name: `${beanName} (Web)`,
+    beanName,
+    equipmentId: equipment.id,
+    dose: rec.dose || DEFAULT_RECIPE.dose,
+    yield: rec.yield || DEFAULT_RECIPE.yield,
+    timeMin: timeWindow.min,
+    timeMax: timeWindow.max,
+    tempSetting: isValidTempSetting(equipment.machine, rec.tempSetting)
+      ? rec.tempSetting!
+      : getDefaultTempSetting(equipment.machine),
+    grindSetting: '',
+    notes: rec.description || '',
+    source: 'search',
+  });
+};
+
+export const recipeTargets = (recipe: Recipe): ShotTargets => ({
+  timeMin: recipe.timeMin,
+  timeMax: recipe.timeMax,
+  yield: recipe.yield,
+  preinfusion: recipe.preinfusion,
+});
+
+// Rezepte der Bohne zuerst, danach der Rest alphabetisch
+export const sortRecipesForBean = (recipes: Recipe[], beanName: string): Recipe[] => {
+  const bean = beanName.trim().toLowerCase();
+  return [...recipes].sort((a, b) =>
+    Number(b.beanName.toLowerCase() === bean) - Number(a.beanName.toLowerCase() === bean)
+    || a.beanName.localeCompare(b.beanName)
+    || a.name.localeCompare(b.name));
+};
+
+export interface RecipeStats {
+  shots: number;
+  avgOverall: number | null;
+}
+
+export const getRecipeStats = (recipe: Recipe, shots: EspressoShot[]): RecipeStats => {
+  const used = shots.filter(s => s.recipeId === recipe.id);
+  return {
+    shots: used.length,
+    avgOverall: used.length > 0
+      ? Math.round((used.reduce((sum, s) => sum + s.flavorProfile.overall, 0) / used.length) * 10) / 10
+      : null,
+  };
+};
+
+export type DeviationStatus = 'hit' | 'low' | 'high' | 'changed';
+
+export interface RecipeDeviation {
+  label: string;
+  target: string;
+  actual: string;
+  status: DeviationStatus;
+}
+
+const compareNumber = (actual: number, min: number, max: number): DeviationStatus => {
+  return actual < min ? 'low' : actual > max ? 'high' : 'hit';
+};
+
+/**
+ * Soll/Ist-Vergleich eines Shots mit seinem Rezept. Zahlen werden gegen die
+ * Toleranz geprüft, Einstellungen auf Gleichheit, Geschmack auf ±1 Punkt.
+ */
+export const compareShotToRecipe = (shot: EspressoShot, recipe: Recipe): RecipeDeviation[] => {
+  const deviations: RecipeDeviation[] = [
+    {
+      label: 'Dosis',
+      target: `${recipe.dose}g`,
+      actual: `${shot.dose}g`,
+      status: compareNumber(shot.dose, recipe.dose - DOSE_TOLERANCE, recipe.dose + DOSE_TOLERANCE),
+    },
+    {
+      label: 'Ertrag',
+      target: `${recipe.yield}g`,
+      actual: `${shot.yield}g`,
+      status: compareNumber(shot.yield, recipe.yield - YIELD_TOLERANCE, recipe.yield + YIELD_TOLERANCE),
+    },
+    {
+      label: 'Zeit',
+      target: `${recipe.timeMin}–${recipe.timeMax}s`,
+      actual: `${shot.time}s`,
+      status: compareNumber(shot.time, recipe.timeMin, recipe.timeMax),
+    },
+  ];
+  if (recipe.preinfusion !== undefined && shot.timing) {
+    deviations.push({
+      label: 'Erster Tropfen',
+      target: `${recipe.preinfusion}s`,
+      actual: `${shot.timing.preinfusion}s`,
+      status: compareNumber(shot.timing.preinfusion, recipe.preinfusion - PREINFUSION_TOLERANCE, recipe.preinfusion + PREINFUSION_TOLERANCE),
+    });
+  }
+  if (recipe.grindSetting) {
+    deviations.push({
+      label: 'Mahlgrad',
+      target: recipe.grindSetting,
+      actual: shot.grindSetting || 'n.a.',
+      status: recipe.grindSetting === shot.grindSetting ? 'hit' : 'changed',
+    });
+  }
+  if (recipe.tempSetting) {
+    deviations.push({
+      label: 'Temperatur',
+      target: recipe.tempSetting,
+      actual: shot.tempSetting || 'n.a.',
+      status: recipe.tempSetting === shot.tempSetting ? 'hit' : 'changed',
+    });
+  }
+  if (recipe.targetFlavor) {
+    (Object.keys(FLAVOR_LABEL) as (keyof EspressoShot['flavorProfile'])[]).forEach(key => {
+      const target = recipe.targetFlavor![key];
+      const actual = shot.flavorProfile[key];
+      deviations.push({
+        label: FLAVOR_LABEL[key],
+        target: String(target),
+        actual: String(actual),
+        status: compareNumber(actual, target - 1, target + 1),
+      });
+    });
+  }
+  return deviations;
+};
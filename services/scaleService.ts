@@ -0,0 +1,292 @@
+import { ShotCurvePoint } from "../types.ts";
+
+export type ScaleModel = 'acaia' | 'felicita' | 'decent' | 'bookoo' | 'simulated';
+
+export interface ScaleReading {
+  weight: number; // Gramm
+  timestamp: number; // ms
+}
+
+/**
+ * Gemeinsame Schnittstelle für echte und simulierte Waagen. Der ShotTimer kennt
+ * nur diese Form, das Protokoll bleibt im jeweiligen Treiber.
+ */
+export interface ScaleConnection {
+  model: ScaleModel;
+  name: string;
+  subscribe: (listener: (reading: ScaleReading) => void) => () => void;
+  tare: () => Promise<void>;
+  disconnect: () => void;
+  pumpStopped?: () => void; // Nur für die Simulation: ab hier läuft nur noch der Nachtropfen
+}
+
+export const SCALE_LABEL: Record<ScaleModel, string> = {
+  acaia: 'Acaia',
+  felicita: 'Felicita',
+  decent: 'Decent Scale',
+  bookoo: 'Bookoo',
+  simulated: 'Simulierte Waage',
+};
+
+// Ab diesem Gewicht gilt der erste Tropfen als erkannt
+export const FIRST_DROP_THRESHOLD = 0.3;
+// Erst eine Messung unter diesem Betrag zeigt, dass das Tarieren bei der Waage angekommen ist
+export const TARE_SETTLED_THRESHOLD = 0.1;
+export const DEFAULT_DRIP_OFFSET = 2;
+// So lange wird nach dem Stop noch gewogen, bis der Nachtropfen in der Tasse ist
+export const DRIP_SETTLE_MS = 3000;
+
+const SETTINGS_KEY = 'barista_scale_v1';
+
+export interface ScaleSettings {
+  dripOffset: number; // Gramm, die nach dem Stop noch nachlaufen
+}
+
+export const loadScaleSettings = (): ScaleSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return { dripOffset: typeof saved?.dripOffset === 'number' ? saved.dripOffset : DEFAULT_DRIP_OFFSET };
+  } catch {
+    return { dripOffset: DEFAULT_DRIP_OFFSET };
+  }
+};
+
+export const saveScaleSettings = (settings: ScaleSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Fluss in g/s über ein gleitendes Fenster, damit das Rauschen der Waage nicht durchschlägt
+export const computeFlow = (readings: ScaleReading[], windowMs = 1000): number => {
+  if (readings.length < 2) return 0;
+  const last = readings[readings.length - 1];
+  const first = readings.find(r => last.timestamp - r.timestamp <= windowMs) || readings[0];
+  const dt = (last.timestamp - first.timestamp) / 1000;
+  return dt > 0 ? Math.max(0, (last.weight - first.weight) / dt) : 0;
+};
+
+// Gewichtsverlauf ab Extraktionsbeginn als Kurve für den Shot
+export const toCurve = (readings: ScaleReading[], startedAt: number): ShotCurvePoint[] => {
+  return readings
+    .filter(r => r.timestamp >= startedAt)
+    .map((r, i, all) => ({
+      t: Math.round((r.timestamp - startedAt) / 100) / 10,
+      weight: Math.round(r.weight * 10) / 10,
+      flow: Math.round(computeFlow(all.slice(0, i + 1)) * 100) / 100,
+    }));
+};
+
+const createEmitter = () => {
+  const listeners = new Set<(reading: ScaleReading) => void>();
+  return {
+    emit: (weight: number) => {
+      const reading = { weight, timestamp: Date.now() };
+      listeners.forEach(l => l(reading));
+    },
+    subscribe: (listener: (reading: ScaleReading) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+/**
+ * Simulierte Waage für Entwicklung ohne Hardware: Nach dem Tarieren folgt eine
+ * kurze Preinfusion, dann steigt der Fluss auf ca. 2 g/s. Nach `pumpStopped`
+ * läuft der Fluss innerhalb von zwei Sekunden aus.
+ */
+export const createSimulatedScale = (options: { preinfusionMs?: number; flow?: number; tickMs?: number } = {}): ScaleConnection => {
+  const { preinfusionMs = 5000, flow = 2, tickMs = 100 } = options;
+  const emitter = createEmitter();
+  let weight = 0;
+  let pourStart: number | null = null;
+  let pumpStop: number | null = null;
+
+  const timer = window.setInterval(() => {
+    const now = Date.now();
+    if (pourStart !== null && now >= pourStart) {
+      const ramp = Math.min(1, (now - pourStart) / 3000);
+      const tail = pumpStop === null ? 1 : Math.max(0, 1 - (now - pumpStop) / 2000);
+      weight += flow * ramp * tail * (tickMs / 1000) * (0.9 + Math.random() * 0.2);
+    }
+    emitter.emit(Math.round(weight * 10) / 10);
+  }, tickMs);
+
+  return {
+    model: 'simulated',
+    name: SCALE_LABEL.simulated,
+    subscribe: emitter.subscribe,
+    tare: async () => {
+      weight = 0;
+      pourStart = Date.now() + preinfusionMs;
+      pumpStop = null;
+    },
+    pumpStopped: () => {
+      if (pourStart !== null && pumpStop === null) pumpStop = Date.now();
+    },
+    disconnect: () => window.clearInterval(timer),
+  };
+};
+
+// --- Web Bluetooth ---
+
+// Minimale Typen, die DOM-Lib enthält Web Bluetooth (noch) nicht
+interface BleCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications: () => Promise<BleCharacteristic>;
+  writeValue: (data: BufferSource) => Promise<void>;
+}
+interface BleService {
+  getCharacteristic: (uuid: string) => Promise<BleCharacteristic>;
+}
+interface BleServer {
+  getPrimaryService: (uuid: string) => Promise<BleService>;
+  disconnect: () => void;
+}
+interface BleDevice extends EventTarget {
+  name?: string;
+  gatt?: { connect: () => Promise<BleServer> };
+}
+interface BleNavigator {
+  bluetooth?: {
+    requestDevice: (options: { filters: { namePrefix: string }[]; optionalServices: string[] }) => Promise<BleDevice>;
+  };
+}
+
+interface ScaleProtocol {
+  namePrefixes: string[];
+  service: string;
+  notify: string; // Gewichtsdaten
+  write: string; // Kommandos
+  parse: (data: DataView) => number | null;
+  tare: number[];
+  init?: number[][]; // Handshake nach dem Verbinden
+  heartbeat?: number[]; // Zyklisch senden, sonst trennt die Waage
+}
+
+const bytes = (data: DataView): number[] => Array.from(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+
+// Acaia: Pakete EF DD <Typ> <Payload> <Prüfsumme gerade/ungerade Bytes>, siehe pyacaia
+const acaiaMessage = (type: number, payload: number[]): number[] => {
+  const even = payload.filter((_, i) => i % 2 === 0).reduce((a, b) => a + b, 0) & 0xff;
+  const odd = payload.filter((_, i) => i % 2 === 1).reduce((a, b) => a + b, 0) & 0xff;
+  return [0xef, 0xdd, type, ...payload, even, odd];
+};
+
+const acaiaEvents = (events: number[]) => acaiaMessage(12, [events.length + 1, ...events]);
+
+export const SCALE_PROTOCOLS: Record<Exclude<ScaleModel, 'simulated'>, ScaleProtocol> = {
+  acaia: {
+    namePrefixes: ['ACAIA', 'LUNAR', 'PEARL', 'PROCH', 'PYXIS'],
+    service: '49535343-fe7d-4ae5-8fa9-9fafd205e455',
+    notify: '49535343-1e4d-4bd9-ba61-23c647249616',
+    write: '49535343-8841-43f4-a8d4-ecbe34729bb3',
+    parse: (data) => {
+      const b = bytes(data);
+      // Typ 12 = Event, Event 5 = Gewicht
+      if (b[0] !== 0xef || b[1] !== 0xdd || b[2] !== 12 || b[4] !== 5) return null;
+      const p = b.slice(5);
+      const value = (((p[1] << 8) | p[0]) / 10 ** p[4]) * ((p[5] & 0x02) ? -1 : 1);
+      return Number.isFinite(value) ? value : null;
+    },
+    tare: acaiaMessage(4, [0]),
+    init: [
+      acaiaMessage(11, [0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d, 0x2d]),
+      acaiaEvents([0, 1, 1, 2, 2, 5, 3, 4]),
+    ],
+    heartbeat: acaiaMessage(0, [2, 0]),
+  },
+  felicita: {
+    namePrefixes: ['FELICITA'],
+    service: '0000ffe0-0000-1000-8000-00805f9b34fb',
+    notify: '0000ffe1-0000-1000-8000-00805f9b34fb',
+    write: '0000ffe1-0000-1000-8000-00805f9b34fb',
+    // ASCII-Frame: Vorzeichen an Stelle 2, sechs Ziffern in 1/100 g
+    parse: (data) => {
+      const b = bytes(data);
+      if (b.length < 9) return null;
+      // parseInt läse aus einem halben Frame wie "00 ---" still 0 g
+      const digits = String.fromCharCode(...b.slice(3, 9));
+      if (!/^\d{6}$/.test(digits)) return null;
+      return (Number(digits) / 100) * (b[2] === 0x2d ? -1 : 1);
+    },
+    tare: [0x54],
+  },
+  decent: {
+    namePrefixes: ['Decent Scale'],
+    service: '0000fff0-0000-1000-8000-00805f9b34fb',
+    notify: '0000fff4-0000-1000-8000-00805f9b34fb',
+    write: '000036f5-0000-1000-8000-00805f9b34fb',
+    // 03 CE <int16 BE in 1/10 g>
+    parse: (data) => {
+      if (data.byteLength < 4 || data.getUint8(0) !== 0x03 || (data.getUint8(1) !== 0xce && data.getUint8(1) !== 0xca)) return null;
+      return data.getInt16(2) / 10;
+    },
+    tare: [0x03, 0x0f, 0x00, 0x00, 0x00, 0x00, 0x0c],
+  },
+  bookoo: {
+    namePrefixes: ['BOOKOO'],
+    service: '00000ffe-0000-1000-8000-00805f9b34fb',
+    notify: '0000ff11-0000-1000-8000-00805f9b34fb',
+    write: '0000ff12-0000-1000-8000-00805f9b34fb',
+    // 03 0B …, Vorzeichen an Stelle 6, Gewicht 24 Bit BE in 1/100 g
+    parse: (data) => {
+      const b = bytes(data);
+      if (b.length < 10 || b[0] !== 0x03 || b[1] !== 0x0b) return null;
+      return (((b[7] << 16) | (b[8] << 8) | b[9]) / 100) * (b[6] === 0x2d ? -1 : 1);
+    },
+    tare: [0x03, 0x0a, 0x01, 0x00, 0x00, 0x08],
+  },
+};
+
+export const isBluetoothAvailable = (): boolean => !!(navigator as BleNavigator).bluetooth;
+
+const detectModel = (name: string): Exclude<ScaleModel, 'simulated'> | null => {
+  const upper = name.toUpperCase();
+  const match = (Object.keys(SCALE_PROTOCOLS) as (keyof typeof SCALE_PROTOCOLS)[])
+    .find(model => SCALE_PROTOCOLS[model].namePrefixes.some(prefix => upper.startsWith(prefix.toUpperCase())));
+  return match || null;
+};
+
+// Öffnet den Geräte-Dialog des Browsers und verbindet die gewählte Waage
+export const connectBluetoothScale = async (): Promise<ScaleConnection> => {
+  const bluetooth = (navigator as BleNavigator).bluetooth;
+  if (!bluetooth) throw new Error("Web Bluetooth wird von diesem Browser nicht unterstützt.");
+
+  const protocols = Object.values(SCALE_PROTOCOLS);
+  const device = await bluetooth.requestDevice({
+    filters: protocols.flatMap(p => p.namePrefixes.map(namePrefix => ({ namePrefix }))),
+    optionalServices: protocols.map(p => p.service),
+  });
+  const model = detectModel(device.name || '');
+  if (!model || !device.gatt) throw new Error(`Unbekannte Waage: ${device.name || 'ohne Namen'}`);
+
+  const protocol = SCALE_PROTOCOLS[model];
+  const server = await device.gatt.connect();
+  const service = await server.getPrimaryService(protocol.service);
+  const notify = await service.getCharacteristic(protocol.notify);
+  const write = protocol.write === protocol.notify ? notify : await service.getCharacteristic(protocol.write);
+  const send = (command: number[]) => write.writeValue(new Uint8Array(command));
+
+  const emitter = createEmitter();
+  notify.addEventListener('characteristicvaluechanged', () => {
+    const weight = notify.value ? protocol.parse(notify.value) : null;
+    if (weight !== null) emitter.emit(weight);
+  });
+  await notify.startNotifications();
+  for (const command of protocol.init || []) await send(command);
+
+  const heartbeat = protocol.heartbeat
+    ? window.setInterval(() => send(protocol.heartbeat!).catch(console.error), 3000)
+    : null;
+
+  return {
+    model,
+    name: device.name || SCALE_LABEL[model],
+    subscribe: emitter.subscribe,
+    tare: () => send(protocol.tare),
+    disconnect: () => {
+      if (heartbeat) window.clearInterval(heartbeat);
+      server.disconnect();
+    },
+  };
+};
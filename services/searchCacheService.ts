@@ -0,0 +1,84 @@
+import { CoffeeSearchRecommendation } from "../types.ts";
+
+const CACHE_KEY = 'barista_search_cache_v1';
+// Älteste Einträge fliegen raus, damit der localStorage nicht vollläuft
+const MAX_ENTRIES = 100;
+
+export interface CachedSearch {
+  query: string; // Ursprüngliche Schreibweise der ersten Suche
+  result: CoffeeSearchRecommendation;
+  cachedAt: number;
+  equipmentId: string; // Setup, für das tempSetting übersetzt wurde
+}
+
+type SearchCache = Record<string, CachedSearch>;
+
+/**
+ * Suchschlüssel unabhängig von Groß-/Kleinschreibung, Akzenten, Satzzeichen
+ * und Leerzeichen: "Äthiopien  Yirgacheffe!" und "athiopien yirgacheffe" treffen denselben Eintrag.
+ */
+export const normalizeQuery = (query: string): string => {
+  return query
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+};
+
+const readCache = (): SearchCache => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Schreibt die neuesten Einträge; ist der localStorage voll, mit jeweils halb so
+ * vielen. Passt nicht einmal einer, bleibt der Cache wie er war – die Suche selbst
+ * hat ja funktioniert.
+ */
+const writeCache = (cache: SearchCache, newestFirst: string[]) => {
+  for (let count = newestFirst.length; count > 0; count = Math.floor(count / 2)) {
+    const entries = Object.fromEntries(newestFirst.slice(0, count).map(k => [k, cache[k]]));
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+      return;
+    } catch {
+      // QuotaExceededError: mit weniger Einträgen erneut versuchen
+    }
+  }
+  console.error("Such-Cache nicht gespeichert: localStorage ist voll.");
+};
+
+// tempSetting ist auf die Maschine übersetzt, daher gilt ein Eintrag nur für sein Setup
+const cacheKey = (query: string, equipmentId: string): string | null => {
+  const normalized = normalizeQuery(query);
+  return normalized ? `${equipmentId}|${normalized}` : null;
+};
+
+export const getCachedSearch = (query: string, equipmentId: string): CachedSearch | null => {
+  const key = cacheKey(query, equipmentId);
+  if (!key) return null;
+  const entry = readCache()[key];
+  return entry && entry.result && Array.isArray(entry.result.sources) ? entry : null;
+};
+
+// Nur echte Antworten cachen – ein Fehlschlag ohne Quellen soll beim nächsten Mal neu versucht werden
+export const cacheSearch = (query: string, result: CoffeeSearchRecommendation, equipmentId: string) => {
+  const key = cacheKey(query, equipmentId);
+  if (!key || (!result.found && result.sources.length === 0)) return;
+  const cache = readCache();
+  cache[key] = { query: query.trim(), result, cachedAt: Date.now(), equipmentId };
+  const keys = Object.keys(cache).sort((a, b) => cache[b].cachedAt - cache[a].cachedAt);
+  writeCache(cache, keys.slice(0, MAX_ENTRIES));
+};
+
+export const formatCacheAge = (cachedAt: number, now: number = Date.now()): string => {
+  const days = Math.floor((now - cachedAt) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'heute';
+  if (days === 1) return 'gestern';
+  return `vor ${days} Tagen`;
+};
@@ -0,0 +1,183 @@
+import { CoffeeSearchRecommendation, MachineProfile, NumericRange } from "../types.ts";
+import { getTempOptions, isValidTempSetting } from "./equipmentService.ts";
+
+export type SearchResponse = Omit<CoffeeSearchRecommendation, 'sources'>;
+
+type NumericField = 'dose' | 'yield' | 'time';
+
+// Plausible Grenzen für Espresso; alles außerhalb ist ein Modellfehler, kein Rezept
+export const SEARCH_LIMITS: Record<NumericField, NumericRange & { label: string; unit: string }> = {
+  dose: { min: 5, max: 30, label: 'Dosis', unit: 'g' },
+  yield: { min: 5, max: 120, label: 'Ertrag', unit: 'g' },
+  time: { min: 5, max: 90, label: 'Zeit', unit: 's' },
+};
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Sucht das erste vollständige JSON-Objekt im Text. Bevorzugt ```json-Blöcke,
+ * sonst werden Klammern unter Beachtung von Strings gezählt – anders als ein
+ * gieriger Regex verschluckt das keine Quellenangaben mit geschweiften Klammern.
+ */
+export const extractJsonObject = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = fenced ? [fenced[1], text] : [text];
+  for (const candidate of candidates) {
+    for (let start = candidate.indexOf('{'); start !== -1; start = candidate.indexOf('{', start + 1)) {
+      const end = findClosingBrace(candidate, start);
+      if (end === -1) break;
+      try {
+        return JSON.parse(candidate.slice(start, end + 1));
+      } catch {
+        // Nächste öffnende Klammer probieren
+      }
+    }
+  }
+  return null;
+};
+
+const findClosingBrace = (text: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Liest Zahlen und Spannen aus Modellausgaben: 18, "18", "18,5 g", "36-40g",
+ * "25 – 30 Sekunden", "ca. 28s". Bei Spannen ist value der Mittelwert.
+ */
+export const parseNumberOrRange = (raw: unknown): { value: number; range?: NumericRange } | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? { value: raw } : null;
+  if (typeof raw !== 'string') return null;
+  const text = raw.replace(/(\d),(\d)/g, '$1.$2');
+  const numbers = (text.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  if (numbers.length === 0) return null;
+  // Einheit zwischen den Zahlen erlaubt: "36g-40g", "25 s bis 30 s"
+  const isRange = numbers.length >= 2 && /\d\s*[a-z°]*\s*(?:-|–|—|bis|to)\s*\d/i.test(text);
+  if (!isRange) return { value: numbers[0] };
+  const min = Math.min(numbers[0], numbers[1]);
+  const max = Math.max(numbers[0], numbers[1]);
+  return { value: round1((min + max) / 2), range: { min, max } };
+};
+
+const describeRaw = (raw: unknown): string => {
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  return text.length > 30 ? `${text.slice(0, 30)}…` : text;
+};
+
+// Stufen tolerant abgleichen ("ii", "Stufe II"), °C-Angaben auf die Zahl reduzieren
+export const normalizeTempSetting = (raw: unknown, machine: MachineProfile): string | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const text = String(raw).trim();
+  const options = getTempOptions(machine);
+  if (options) {
+    const exact = options.find(o => o.toLowerCase() === text.toLowerCase());
+    if (exact) return exact;
+    const word = options.find(o => new RegExp(`(^|\\s)${o.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i').test(text));
+    return word;
+  }
+  const parsed = parseNumberOrRange(text);
+  if (!parsed) return undefined;
+  const value = String(parsed.value);
+  return isValidTempSetting(machine, value) ? value : undefined;
+};
+
+/**
+ * Prüft und normalisiert die Antwort der Rezeptsuche. Zahlen werden aus Strings
+ * gelesen, Spannen in min/max zerlegt, unplausible Werte verworfen. Alles
+ * Verworfene landet lesbar in `dropped`, statt stillschweigend im Formular zu enden.
+ */
+export const normalizeSearchResponse = (raw: unknown, machine: MachineProfile): SearchResponse => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { found: false, dropped: ['Antwort enthielt kein lesbares JSON'] };
+  }
+  const data = raw as Record<string, unknown>;
+  const dropped: string[] = [];
+  const result: SearchResponse = {
+    found: data.found === true || data.found === 'true',
+  };
+
+  (Object.keys(SEARCH_LIMITS) as NumericField[]).forEach(field => {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') return;
+    const limits = SEARCH_LIMITS[field];
+    // Ertrag als Verhältnis ("1:2") über die Dosis in Gramm umrechnen
+    const ratio = field === 'yield' && typeof value === 'string' ? value.match(/^\s*1\s*:\s*(\d+(?:[.,]\d+)?)\s*$/) : null;
+    const parsed = ratio && result.dose !== undefined
+      ? { value: round1(result.dose * Number(ratio[1].replace(',', '.'))) }
+      : parseNumberOrRange(value);
+    if (!parsed) {
+      dropped.push(`${limits.label} "${describeRaw(value)}" ist keine Zahl`);
+      return;
+    }
+    const outside = (n: number) => n < limits.min || n > limits.max;
+    if (outside(parsed.value) || (parsed.range && (outside(parsed.range.min) || outside(parsed.range.max)))) {
+      dropped.push(`${limits.label} "${describeRaw(value)}" liegt außerhalb ${limits.min}–${limits.max}${limits.unit}`);
+      return;
+    }
+    // Das Formular erwartet ganze Sekunden
+    result[field] = field === 'time' ? Math.round(parsed.value) : parsed.value;
+    if (parsed.range) result.ranges = { ...result.ranges, [field]: parsed.range };
+  });
+
+  // Weniger Ertrag als Dosis gibt es im Espresso nicht – dann stimmt eine der beiden Zahlen nicht
+  if (result.dose !== undefined && result.yield !== undefined && result.yield < result.dose) {
+    dropped.push(`Ertrag ${result.yield}g ist kleiner als die Dosis ${result.dose}g`);
+    delete result.yield;
+    if (result.ranges) delete result.ranges.yield;
+  }
+
+  // Den alten Feldnamen aus der Mara-X-Zeit liefert das Modell gelegentlich noch
+  const rawTemp = data.tempSetting ?? data.maraXSetting;
+  const tempSetting = normalizeTempSetting(rawTemp, machine);
+  if (tempSetting) result.tempSetting = tempSetting;
+  else if (rawTemp !== undefined && rawTemp !== null && rawTemp !== '') {
+    dropped.push(`Temperatureinstellung "${describeRaw(rawTemp)}" passt nicht zu ${machine.name}`);
+  }
+
+  if (typeof data.temperature === 'string' || typeof data.temperature === 'number') {
+    result.temperature = String(data.temperature);
+  }
+  if (typeof data.description === 'string' && data.description.trim()) {
+    result.description = data.description.trim();
+  }
+
+  // Ohne ein einziges brauchbares Rezeptfeld ist "found" wertlos
+  if (result.found && result.dose === undefined && result.yield === undefined && result.time === undefined) {
+    result.found = false;
+    dropped.push('Antwort meldete einen Fund, aber ohne verwertbare Rezeptwerte');
+  }
+  if (dropped.length > 0) result.dropped = dropped;
+  return result;
+};
+
+// Anzeige: Spanne "36–40", sonst der Einzelwert, sonst der Standardwert
+export const formatSearchValue = (rec: SearchResponse, field: NumericField, fallback: number): string => {
+  const range = rec.ranges?.[field];
+  if (range) return `${range.min}–${range.max}`;
+  return String(rec[field] || fallback);
+};
+
+export const parseSearchResponse = (text: string, machine: MachineProfile): SearchResponse => {
+  return normalizeSearchResponse(extractJsonObject(text), machine);
+};
+
+// Fehlermeldung für die Suche, null wenn es ein Ergebnis oder wenigstens Quellen gibt
+export const getSearchError = (rec: CoffeeSearchRecommendation): string | null => {
+  if (rec.found || rec.sources.length > 0) return null;
+  return rec.description || "Suche war nicht erfolgreich. Prüfe deine Verbindung.";
+};
@@ -0,0 +1,118 @@
+import { DialInSession, EspressoShot, GrindChange } from "../types.ts";
+
+export interface ShotDelta {
+  yield: number;
+  time: number;
+  overall: number;
+}
+
+// Shots derselben Tüte bzw. (ohne Tüte) derselben Bohne gehören zusammen
+const beanKey = (shot: Pick<EspressoShot, 'bagId' | 'beanName'>): string => {
+  return shot.bagId || `name:${(shot.beanName || '').trim().toLowerCase()}`;
+};
+
+export const isSameBean = (a: Pick<EspressoShot, 'bagId' | 'beanName'>, b: Pick<EspressoShot, 'bagId' | 'beanName'>): boolean => {
+  return beanKey(a) === beanKey(b);
+};
+
+/**
+ * Gruppiert den Journal-Verlauf in Dial-In Sessions, neueste Session zuerst.
+ * Ältere Shots ohne sessionId werden über aufeinanderfolgende gleiche Bohnen zugeordnet.
+ */
+export const groupSessions = (shots: EspressoShot[]): DialInSession[] => {
+  const chronological = [...shots].sort((a, b) => a.timestamp - b.timestamp);
+  const sessions: DialInSession[] = [];
+  const byId = new Map<string, DialInSession>();
+  let previous: EspressoShot | null = null;
+
+  for (const shot of chronological) {
+    let session: DialInSession | undefined;
+    if (shot.sessionId) {
+      session = byId.get(shot.sessionId);
+    } else if (previous && !previous.sessionId && isSameBean(previous, shot)) {
+      session = sessions[sessions.length - 1];
+    }
+
+    if (!session) {
+      session = { id: shot.sessionId || shot.id, beanName: shot.beanName, bagId: shot.bagId, shots: [] };
+      sessions.push(session);
+      byId.set(session.id, session);
+    }
+
+    session.shots.push(shot);
+    if (shot.lockedIn) session.lockedShot = shot;
+    previous = shot;
+  }
+
+  return sessions.reverse();
+};
+
+// Vorherige Shots derselben Bohne, chronologisch und auf die letzten `limit` begrenzt
+export const getBeanHistory = (shots: EspressoShot[], shot: EspressoShot, limit: number): EspressoShot[] => {
+  return shots
+    .filter(s => s.id !== shot.id && s.timestamp < shot.timestamp && isSameBean(s, shot))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-limit);
+};
+
+// Mahlgrad-Eingaben sind Freitext ("2.5", "2,5", "Stufe 3") – wir lesen die erste Zahl
+export const parseGrind = (setting: string | undefined): number | null => {
+  const match = (setting || '').replace(',', '.').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+// Die Nachkommastellen richten sich nach der feineren der beiden Angaben (z.B. 2.5 + -0.25 = 2.25)
+export const applyGrindDelta = (setting: string | undefined, delta: number): string => {
+  const current = parseGrind(setting);
+  if (current === null) return setting || '';
+  const decimals = Math.max(...[current, delta].map(n => (String(n).split('.')[1] || '').length));
+  return (current + delta).toFixed(decimals);
+};
+
+// Bei Skalen wie der Varia VS3 bedeutet eine kleinere Zahl einen feineren Mahlgrad
+export const getGrindChange = (previous: EspressoShot | undefined, current: EspressoShot): GrindChange => {
+  const from = parseGrind(previous?.grindSetting);
+  const to = parseGrind(current.grindSetting);
+  if (from === null || to === null) return { direction: 'unknown', amount: null };
+  const diff = Math.round((to - from) * 100) / 100;
+  if (diff === 0) return { direction: 'unchanged', amount: 0 };
+  return { direction: diff < 0 ? 'finer' : 'coarser', amount: Math.abs(diff) };
+};
+
+export const getSessionDeltas = (session: DialInSession): (ShotDelta | null)[] => {
+  return session.shots.map((shot, i) => {
+    if (i === 0) return null;
+    const prev = session.shots[i - 1];
+    return {
+      yield: Math.round((shot.yield - prev.yield) * 10) / 10,
+      time: shot.time - prev.time,
+      overall: shot.flavorProfile.overall - prev.flavorProfile.overall,
+    };
+  });
+};
+
+/**
+ * Liefert die Session-ID für einen neuen Shot: Die Session des letzten Shots wird
+ * fortgesetzt, solange dieselbe Bohne gezogen wird und das Rezept noch nicht gelockt ist.
+ */
+export const resolveSessionId = (newShot: Pick<EspressoShot, 'id' | 'bagId' | 'beanName'>, shots: EspressoShot[]): string => {
+  const current = groupSessions(shots)[0];
+  if (!current || current.lockedShot) return newShot.id;
+  const latest = current.shots[current.shots.length - 1];
+  return isSameBean(latest, newShot) ? current.id : newShot.id;
+};
+
+// Markiert genau einen Shot der Session als Locked-In; ein erneuter Klick hebt die Markierung auf
+export const toggleLockedIn = (shots: EspressoShot[], shotId: string): EspressoShot[] => {
+  const session = groupSessions(shots).find(sess => sess.shots.some(s => s.id === shotId));
+  if (!session) return shots;
+  const memberIds = new Set(session.shots.map(s => s.id));
+  const lock = !session.shots.find(s => s.id === shotId)!.lockedIn;
+  return shots.map(s => {
+    if (!memberIds.has(s.id)) return s;
+    // Session-ID festschreiben, damit die Gruppierung auch ohne Nachbarschaft stabil bleibt
+    const withSession = { ...s, sessionId: session.id };
+    if (s.id === shotId) return { ...withSession, lockedIn: lock };
+    return lock ? { ...withSession, lockedIn: false } : withSession;
+  });
+};
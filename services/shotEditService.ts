@@ -0,0 +1,66 @@
+import { EspressoShot, ShotFieldChange } from "../types.ts";
+
+// Felder, die nach dem Speichern korrigiert werden dürfen
+export type ShotDraft = Pick<EspressoShot,
+  'beanName' | 'roastDate' | 'dose' | 'yield' | 'time' | 'tds' | 'grindSetting' | 'tempSetting' | 'notes' | 'flavorProfile'>;
+
+export const FIELD_LABEL: Record<string, string> = {
+  beanName: 'Bohne',
+  roastDate: 'Röstdatum',
+  dose: 'Dosis',
+  yield: 'Ertrag',
+  time: 'Zeit',
+  tds: 'TDS',
+  grindSetting: 'Mahlgrad',
+  tempSetting: 'Temperatur',
+  notes: 'Notizen',
+  'flavorProfile.sourness': 'Säure',
+  'flavorProfile.bitterness': 'Bitterkeit',
+  'flavorProfile.body': 'Körper',
+  'flavorProfile.sweetness': 'Süße',
+  'flavorProfile.overall': 'Gesamt',
+};
+
+export const toDraft = (shot: EspressoShot): ShotDraft => ({
+  beanName: shot.beanName,
+  roastDate: shot.roastDate,
+  dose: shot.dose,
+  yield: shot.yield,
+  time: shot.time,
+  tds: shot.tds,
+  grindSetting: shot.grindSetting,
+  tempSetting: shot.tempSetting,
+  notes: shot.notes,
+  flavorProfile: { ...shot.flavorProfile },
+});
+
+const flatten = (draft: ShotDraft): Record<string, string> => {
+  const { flavorProfile, ...fields } = draft;
+  const flat: Record<string, string> = {};
+  Object.entries(fields).forEach(([key, value]) => { flat[key] = String(value ?? ''); });
+  Object.entries(flavorProfile).forEach(([key, value]) => { flat[`flavorProfile.${key}`] = String(value); });
+  return flat;
+};
+
+export const diffShot = (shot: EspressoShot, draft: ShotDraft): ShotFieldChange[] => {
+  const before = flatten(toDraft(shot));
+  const after = flatten(draft);
+  return Object.keys(after)
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, from: before[field], to: after[field] }));
+};
+
+/**
+ * Übernimmt die Korrektur und protokolliert alte und neue Werte. Ohne Änderung
+ * bleibt die Referenz gleich, damit die Diff-Synchronisation nichts schreibt.
+ */
+export const applyShotEdit = (shot: EspressoShot, draft: ShotDraft, at: number = Date.now()): EspressoShot => {
+  const changes = diffShot(shot, draft);
+  if (changes.length === 0) return shot;
+  return {
+    ...shot,
+    ...draft,
+    flavorProfile: { ...draft.flavorProfile },
+    edits: [...(shot.edits || []), { timestamp: at, changes }],
+  };
+};
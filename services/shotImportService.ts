@@ -0,0 +1,305 @@
+import { EspressoShot, ImportSource, ShotCurvePoint } from "../types.ts";
+import { ShotLoadResult, validateShot } from "./storageService.ts";
+import { parseJournalImport } from "./exportService.ts";
+
+/**
+ * Importer für Shot-Dateien anderer Apps. Jeder Importer liefert vollständige
+ * EspressoShots mit stabiler ID (Quelle + Original-ID), damit ein erneuter Import
+ * als Duplikat erkannt wird. Alles, was nicht zugeordnet wird, landet unverändert
+ * in `extensions[quelle]`.
+ */
+
+type Json = Record<string, any>;
+
+const DEFAULT_FLAVOR = { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall: 3 };
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const toNumbers = (value: unknown): number[] => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.trim().split(/\s+/) : [];
+  return list.map(toNumber).filter((n): n is number => n !== undefined);
+};
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const average = (values: number[]): number | undefined => {
+  const valid = values.filter(v => v > 0);
+  return valid.length > 0 ? valid.reduce((a, b) => a + b, 0) / valid.length : undefined;
+};
+
+// Bewertung einer fremden Skala (0..max) auf 1–5 abbilden, ohne Bewertung neutral
+const scaleRating = (value: unknown, max: number): number => {
+  const n = toNumber(value);
+  if (!n || n <= 0 || max <= 0) return DEFAULT_FLAVOR.overall;
+  return Math.min(5, Math.max(1, Math.round((n / max) * 5)));
+};
+
+const omit = (source: Json, keys: string[]): Json => {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => !keys.includes(key)));
+};
+
+const isoDate = (value: unknown): string => {
+  if (typeof value !== 'string' || !value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+const buildCurve = (
+  elapsed: number[],
+  series: Partial<Record<Exclude<keyof ShotCurvePoint, 't'>, number[]>>,
+  scale = 1
+): ShotCurvePoint[] | undefined => {
+  if (elapsed.length === 0) return undefined;
+  return elapsed.map((t, i) => {
+    const point: ShotCurvePoint = { t: round(t / scale, 2) };
+    (Object.keys(series) as (keyof typeof series)[]).forEach(key => {
+      const value = series[key]?.[i];
+      if (value !== undefined) point[key] = round(value / scale, 2);
+    });
+    return point;
+  });
+};
+
+// Ohne Dosis gibt es weder Ratio noch Extraktion – solche Shots zählen als verworfen
+const finalize = (source: ImportSource, shot: Omit<EspressoShot, 'importSource'>): EspressoShot | null => {
+  if (!(shot.dose > 0)) return null;
+  return validateShot({ ...shot, importSource: source });
+};
+
+// --- Decent (.shot, Tcl-Format v1 und JSON v2) ---
+
+// Minimaler Tcl-Tokenizer: Wörter, "Strings" und verschachtelte {Listen}
+const tokenizeTcl = (text: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '{') {
+      let depth = 1;
+      let j = i + 1;
+      while (j < text.length && depth > 0) {
+        if (text[j] === '{') depth++;
+        else if (text[j] === '}') depth--;
+        j++;
+      }
+      tokens.push(text.slice(i + 1, j - 1));
+      i = j;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+      tokens.push(text.slice(i + 1, j));
+      i = j + 1;
+    } else {
+      let j = i;
+      while (j < text.length && !/\s/.test(text[j])) j++;
+      tokens.push(text.slice(i, j));
+      i = j;
+    }
+  }
+  return tokens;
+};
+
+const parseTclDict = (text: string): Record<string, string> => {
+  const tokens = tokenizeTcl(text);
+  const dict: Record<string, string> = {};
+  for (let i = 0; i + 1 < tokens.length; i += 2) dict[tokens[i]] = tokens[i + 1];
+  return dict;
+};
+
+const DECENT_V1_CURVE_KEYS = ['espresso_elapsed', 'espresso_weight', 'espresso_flow', 'espresso_pressure', 'espresso_temperature_basket'];
+const DECENT_V1_SETTINGS_KEYS = ['drink_weight', 'grinder_dose_weight', 'grinder_setting', 'bean_brand', 'bean_type', 'roast_date', 'espresso_notes', 'espresso_enjoyment'];
+
+const parseDecentV1 = (text: string): EspressoShot | null => {
+  const top = parseTclDict(text);
+  const settings = top.settings ? parseTclDict(top.settings) : {};
+  const clock = toNumber(top.clock);
+  const elapsed = toNumbers(top.espresso_elapsed);
+  const weight = toNumbers(top.espresso_weight);
+  const basket = toNumbers(top.espresso_temperature_basket);
+  if (!clock || elapsed.length === 0) return null;
+
+  const beanName = [settings.bean_brand, settings.bean_type].filter(Boolean).join(' ');
+  return finalize('decent', {
+    id: `decent-${clock}`,
+    timestamp: clock * 1000,
+    beanName: beanName || settings.profile_title || 'Decent Shot',
+    roastDate: isoDate(settings.roast_date),
+    dose: toNumber(settings.grinder_dose_weight) || 0,
+    yield: round(toNumber(settings.drink_weight) || weight[weight.length - 1] || 0),
+    time: round(elapsed[elapsed.length - 1]),
+    temperature: round(average(basket) || 0),
+    tempSetting: '',
+    grindSetting: settings.grinder_setting || '',
+    notes: settings.espresso_notes || '',
+    curve: buildCurve(elapsed, {
+      weight,
+      flow: toNumbers(top.espresso_flow),
+      pressure: toNumbers(top.espresso_pressure),
+      temperature: basket,
+    }),
+    extensions: {
+      decent: {
+        ...omit(top, [...DECENT_V1_CURVE_KEYS, 'settings', 'clock']),
+        settings: omit(settings, DECENT_V1_SETTINGS_KEYS),
+      },
+    },
+    flavorProfile: { ...DEFAULT_FLAVOR, overall: scaleRating(settings.espresso_enjoyment, 100) },
+  });
+};
+
+const parseDecentV2 = (json: Json): EspressoShot | null => {
+  const meta: Json = json.meta || {};
+  const bean: Json = meta.bean || {};
+  const shotMeta: Json = meta.shot || {};
+  const clock = toNumber(json.timestamp) ?? toNumber(json.clock);
+  const elapsed = toNumbers(json.elapsed);
+  const weight = toNumbers(json.totals?.weight);
+  const basket = toNumbers(json.temperature?.basket);
+  if (!clock || elapsed.length === 0) return null;
+
+  const beanName = [bean.brand, bean.type].filter(Boolean).join(' ');
+  return finalize('decent', {
+    id: `decent-${clock}`,
+    timestamp: clock * 1000,
+    beanName: beanName || json.profile?.title || 'Decent Shot',
+    roastDate: isoDate(bean.roast_date),
+    dose: toNumber(meta.in) || 0,
+    yield: round(toNumber(meta.out) || weight[weight.length - 1] || 0),
+    time: round(toNumber(meta.time) || elapsed[elapsed.length - 1]),
+    temperature: round(average(basket) || 0),
+    tempSetting: '',
+    grindSetting: String(meta.grinder?.setting ?? ''),
+    notes: shotMeta.notes || bean.notes || '',
+    curve: buildCurve(elapsed, {
+      weight,
+      flow: toNumbers(json.flow?.flow),
+      pressure: toNumbers(json.pressure?.pressure),
+      temperature: basket,
+    }),
+    extensions: {
+      decent: {
+        ...omit(json, ['elapsed', 'timestamp', 'clock', 'totals', 'meta']),
+        totals: omit(json.totals || {}, ['weight']),
+        meta: omit(meta, ['in', 'out', 'time']),
+      },
+    },
+    flavorProfile: { ...DEFAULT_FLAVOR, overall: scaleRating(shotMeta.enjoyment, 100) },
+  });
+};
+
+// --- Gaggiuino (Shot-JSON aus der Web-Oberfläche, Messwerte ×10) ---
+
+const parseGaggiuino = (json: Json): EspressoShot | null => {
+  const points: Json = json.datapoints;
+  const profile: Json = json.profile || {};
+  const recipe: Json = profile.recipe || {};
+  const timeInShot = toNumbers(points.timeInShot);
+  const shotWeight = toNumbers(points.shotWeight);
+  const temperature = toNumbers(points.temperature);
+  const timestamp = toNumber(json.timestamp);
+  if (json.id === undefined || !timestamp || timeInShot.length === 0) return null;
+
+  const duration = toNumber(json.duration) ?? timeInShot[timeInShot.length - 1];
+  return finalize('gaggiuino', {
+    id: `gaggiuino-${json.id}`,
+    timestamp: timestamp * 1000,
+    beanName: `Gaggiuino #${json.id}`,
+    roastDate: '',
+    dose: toNumber(recipe.coffeeIn) || 0,
+    yield: round((shotWeight[shotWeight.length - 1] || 0) / 10 || toNumber(recipe.coffeeOut) || 0),
+    time: round(duration / 10),
+    temperature: round(toNumber(profile.waterTemperature) || (average(temperature) || 0) / 10),
+    tempSetting: '',
+    grindSetting: '',
+    notes: profile.name ? `Profil: ${profile.name}` : '',
+    curve: buildCurve(timeInShot, {
+      weight: shotWeight,
+      flow: toNumbers(points.weightFlow),
+      pressure: toNumbers(points.pressure),
+      temperature,
+    }, 10),
+    extensions: {
+      gaggiuino: {
+        ...omit(json, ['id', 'timestamp', 'duration', 'datapoints']),
+        datapoints: omit(points, ['timeInShot', 'shotWeight', 'weightFlow', 'pressure', 'temperature']),
+      },
+    },
+    flavorProfile: { ...DEFAULT_FLAVOR },
+  });
+};
+
+// --- Beanconqueror (Beanconqueror.json aus dem Export-ZIP) ---
+
+const BEANCONQUEROR_BREW_KEYS = [
+  'config', 'grind_weight', 'brew_beverage_quantity', 'brew_quantity', 'brew_time',
+  'brew_temperature', 'grind_size', 'note', 'rating', 'bean', 'tds',
+];
+
+const parseBeanconqueror = (json: Json): ShotLoadResult => {
+  const beans = new Map<string, Json>((json.BEANS || []).map((b: Json) => [b.config?.uuid, b]));
+  const preparations = new Map<string, Json>((json.PREPARATION || []).map((p: Json) => [p.config?.uuid, p]));
+  const ratingMax = toNumber(json.SETTINGS?.[0]?.brew_rating) || 5;
+  const shots: EspressoShot[] = [];
+  let dropped = 0;
+
+  (json.BREWS as Json[]).forEach(brew => {
+    // Filterkaffee-Zubereitungen gehören nicht ins Espresso-Journal
+    const styleType = preparations.get(brew.method_of_preparation)?.style_type;
+    const uuid = brew.config?.uuid;
+    const timestamp = toNumber(brew.config?.unix_timestamp);
+    if ((styleType && styleType !== 'ESPRESSO') || !uuid || !timestamp) {
+      dropped++;
+      return;
+    }
+    const bean = beans.get(brew.bean) || {};
+    const shot = finalize('beanconqueror', {
+      id: `bc-${uuid}`,
+      timestamp: timestamp * 1000,
+      beanName: bean.name || 'Unbekannte Bohne',
+      roastDate: isoDate(bean.roastingDate),
+      dose: toNumber(brew.grind_weight) || 0,
+      yield: toNumber(brew.brew_beverage_quantity) || toNumber(brew.brew_quantity) || 0,
+      time: toNumber(brew.brew_time) || 0,
+      temperature: toNumber(brew.brew_temperature) || 0,
+      tds: toNumber(brew.tds) || undefined,
+      tempSetting: '',
+      grindSetting: String(brew.grind_size ?? ''),
+      notes: brew.note || '',
+      // Flow-Profile liegen als eigene Dateien im ZIP, der Pfad bleibt in den Extensions erhalten
+      extensions: { beanconqueror: { ...omit(brew, BEANCONQUEROR_BREW_KEYS), bean: omit(bean, ['name', 'roastingDate']) } },
+      flavorProfile: { ...DEFAULT_FLAVOR, overall: scaleRating(brew.rating, ratingMax) },
+    });
+    if (shot) shots.push(shot);
+    else dropped++;
+  });
+
+  return { shots, dropped, migratedFrom: null };
+};
+
+const single = (shot: EspressoShot | null): ShotLoadResult => ({
+  shots: shot ? [shot] : [],
+  dropped: shot ? 0 : 1,
+  migratedFrom: null,
+});
+
+/**
+ * Erkennt das Format am Inhalt: Decent-Tcl, Beanconqueror, Gaggiuino, Decent-JSON
+ * und zuletzt ein eigener Journal-Export. Wirft bei unbekannten Dateien.
+ */
+export const parseImportFile = (text: string): ShotLoadResult => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    if (/^\s*(clock|espresso_elapsed)\s/m.test(text)) return single(parseDecentV1(text));
+    throw new Error("Unbekanntes Dateiformat");
+  }
+  const json = JSON.parse(trimmed);
+  if (Array.isArray(json?.BREWS)) return parseBeanconqueror(json);
+  if (json?.datapoints?.timeInShot) return single(parseGaggiuino(json));
+  if (json?.elapsed && (json.meta || json.totals)) return single(parseDecentV2(json));
+  return parseJournalImport(trimmed);
+};
@@ -0,0 +1,241 @@
+import { EspressoShot } from "../types.ts";
+import { parseShotRecord, readCollection, readShots, writeShots, ShotLoadResult, SHOT_SCHEMA_VERSION } from "./storageService.ts";
+import { shotStorageKey } from "./profileService.ts";
+
+const DB_NAME = 'baristapro';
+const DB_VERSION = 2;
+const STORE = 'shots';
+const TRASH_STORE = 'trash';
+
+// Gelöschte Shots bleiben so lange im Papierkorb, danach werden sie beim Laden entfernt
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Gespeicherter Datensatz: der Shot plus Besitzer und Schema-Version für spätere Migrationen
+type ShotRecord = EspressoShot & { profileId: string; schemaVersion: number };
+type TrashRecord = ShotRecord & { deletedAt: number };
+
+export interface TrashedShot {
+  shot: EspressoShot;
+  deletedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const hasIndexedDb = (): boolean => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // v1: Shots mit Indizes, v2: Papierkorb
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('profile_timestamp', ['profileId', 'timestamp']);
+          store.createIndex('beanName', 'beanName');
+          store.createIndex('timestamp', 'timestamp');
+          store.createIndex('rating', 'flavorProfile.overall');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(TRASH_STORE, { keyPath: 'id' }).createIndex('profileId', 'profileId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toRecord = (profileId: string, shot: EspressoShot): ShotRecord => ({ ...shot, profileId, schemaVersion: SHOT_SCHEMA_VERSION });
+
+const fromRecord = ({ profileId, schemaVersion, ...shot }: ShotRecord): EspressoShot | null => {
+  return parseShotRecord(shot, schemaVersion);
+};
+
+/**
+ * Übernimmt ein altes localStorage-Journal einmalig in IndexedDB und gibt den
+ * localStorage-Platz danach frei. Bereits vorhandene IDs werden nicht überschrieben,
+ * verworfene Datensätze sichert readShots als Rohdaten unter dem :corrupt-Key.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase, profileId: string): Promise<number> => {
+  const key = shotStorageKey(profileId);
+  if (!localStorage.getItem(key)) return 0;
+  const { shots, dropped } = readShots(key);
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  shots.forEach(shot => {
+    // ConstraintError bei vorhandener ID nicht die ganze Transaktion abbrechen lassen
+    store.add(toRecord(profileId, shot)).onerror = (e) => e.preventDefault();
+  });
+  await transactionDone(tx);
+  localStorage.removeItem(key);
+  return dropped;
+};
+
+// Neueste Shots zuerst – entspricht der bisherigen Reihenfolge im Journal
+export const loadProfileShots = async (profileId: string): Promise<ShotLoadResult> => {
+  if (!hasIndexedDb()) return readShots(shotStorageKey(profileId));
+  const db = await openDb();
+  const migrationDropped = await migrateFromLocalStorage(db, profileId);
+  const range = IDBKeyRange.bound([profileId, -Infinity], [profileId, Infinity]);
+  const records = await promisify<ShotRecord[]>(
+    db.transaction(STORE).objectStore(STORE).index('profile_timestamp').getAll(range)
+  );
+  const shots = records.reverse().map(fromRecord);
+  const valid = shots.filter((s): s is EspressoShot => s !== null);
+  return { shots: valid, dropped: migrationDropped + shots.length - valid.length, migratedFrom: null };
+};
+
+/**
+ * Schreibt nur die Unterschiede zwischen zwei Journal-Ständen. Da Shots immutabel
+ * aktualisiert werden, genügt der Referenzvergleich, um geänderte Einträge zu finden.
+ */
+export const syncProfileShots = async (profileId: string, previous: EspressoShot[], next: EspressoShot[]): Promise<void> => {
+  if (!hasIndexedDb()) {
+    writeShots(shotStorageKey(profileId), next);
+    return;
+  }
+  const before = new Map(previous.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+  const changed = next.filter(s => before.get(s.id) !== s);
+  const removed = previous.filter(s => !nextIds.has(s.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  changed.forEach(shot => store.put(toRecord(profileId, shot)));
+  removed.forEach(shot => store.delete(shot.id));
+  await transactionDone(tx);
+};
+
+export const deleteProfileShots = async (profileId: string): Promise<void> => {
+  localStorage.removeItem(shotStorageKey(profileId));
+  localStorage.removeItem(trashStorageKey(profileId));
+  if (!hasIndexedDb()) return;
+  const db = await openDb();
+  const tx = db.transaction([STORE, TRASH_STORE], 'readwrite');
+  const range = IDBKeyRange.bound([profileId, -Infinity], [profileId, Infinity]);
+  const keys = await promisify(tx.objectStore(STORE).index('profile_timestamp').getAllKeys(range));
+  keys.forEach(key => tx.objectStore(STORE).delete(key));
+  const trashKeys = await promisify(tx.objectStore(TRASH_STORE).index('profileId').getAllKeys(profileId));
+  trashKeys.forEach(key => tx.objectStore(TRASH_STORE).delete(key));
+  await transactionDone(tx);
+};
+
+// --- Papierkorb ---
+
+const trashStorageKey = (profileId: string) => `barista_trash_v1:${profileId}`;
+
+const isExpired = (deletedAt: number, now: number) => now - deletedAt > TRASH_RETENTION_MS;
+
+// localStorage-Fallback speichert flach wie der IndexedDB-Datensatz
+const readLocalTrash = (profileId: string): TrashedShot[] => {
+  return (readCollection<EspressoShot & { deletedAt: number }>(trashStorageKey(profileId)) || [])
+    .map(({ deletedAt, ...shot }) => ({ shot, deletedAt }));
+};
+
+const writeLocalTrash = (profileId: string, entries: TrashedShot[]) => {
+  localStorage.setItem(trashStorageKey(profileId), JSON.stringify(entries.map(e => ({ ...e.shot, deletedAt: e.deletedAt }))));
+};
+
+// Neueste Löschung zuerst; abgelaufene Einträge werden dabei endgültig entfernt
+export const loadTrash = async (profileId: string, now: number = Date.now()): Promise<TrashedShot[]> => {
+  if (!hasIndexedDb()) {
+    const entries = readLocalTrash(profileId).filter(e => !isExpired(e.deletedAt, now));
+    writeLocalTrash(profileId, entries);
+    return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+  const db = await openDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  const store = tx.objectStore(TRASH_STORE);
+  const records = await promisify<TrashRecord[]>(store.index('profileId').getAll(profileId));
+  const entries: TrashedShot[] = [];
+  records.forEach(({ deletedAt, ...record }) => {
+    const shot = fromRecord(record);
+    if (!shot || isExpired(deletedAt, now)) store.delete(record.id);
+    else entries.push({ shot, deletedAt });
+  });
+  await transactionDone(tx);
+  return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const trashShot = async (profileId: string, entry: TrashedShot): Promise<void> => {
+  if (!hasIndexedDb()) {
+    writeLocalTrash(profileId, [entry, ...readLocalTrash(profileId)]);
+    return;
+  }
+  const db = await openDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  tx.objectStore(TRASH_STORE).put({ ...toRecord(profileId, entry.shot), deletedAt: entry.deletedAt });
+  await transactionDone(tx);
+};
+
+// Für Wiederherstellen und endgültiges Löschen
+export const removeFromTrash = async (profileId: string, shotId: string): Promise<void> => {
+  if (!hasIndexedDb()) {
+    writeLocalTrash(profileId, readLocalTrash(profileId).filter(e => e.shot.id !== shotId));
+    return;
+  }
+  const db = await openDb();
+  const tx = db.transaction(TRASH_STORE, 'readwrite');
+  tx.objectStore(TRASH_STORE).delete(shotId);
+  await transactionDone(tx);
+};
+
+const migrateProfiles = async (db: IDBDatabase, profileIds: string[]) => {
+  for (const profileId of profileIds) await migrateFromLocalStorage(db, profileId);
+};
+
+// Alle Bohnennamen der angegebenen Profile, alphabetisch
+export const listBeanNames = async (profileIds: string[]): Promise<string[]> => {
+  if (!hasIndexedDb()) {
+    const names = profileIds.flatMap(id => readShots(shotStorageKey(id)).shots.map(s => s.beanName));
+    return Array.from(new Set(names.filter(Boolean))).sort();
+  }
+  const db = await openDb();
+  await migrateProfiles(db, profileIds);
+  // Nur die Shots der angegebenen Profile, sonst tauchen Bohnen anderer Baristas auf
+  const index = db.transaction(STORE).objectStore(STORE).index('profile_timestamp');
+  const records = await Promise.all(profileIds.map(profileId =>
+    promisify<ShotRecord[]>(index.getAll(IDBKeyRange.bound([profileId, -Infinity], [profileId, Infinity])))
+  ));
+  const names = records.flat().map(r => r.beanName);
+  return Array.from(new Set(names.filter(Boolean))).sort();
+};
+
+// Shots einer Bohne, gruppiert nach profileId
+export const loadShotsByBean = async (beanName: string, profileIds: string[]): Promise<Map<string, EspressoShot[]>> => {
+  const byProfile = new Map<string, EspressoShot[]>();
+  if (!hasIndexedDb()) {
+    profileIds.forEach(id => byProfile.set(id, readShots(shotStorageKey(id)).shots.filter(s => s.beanName === beanName)));
+    return byProfile;
+  }
+  const db = await openDb();
+  const records = await promisify<ShotRecord[]>(
+    db.transaction(STORE).objectStore(STORE).index('beanName').getAll(beanName)
+  );
+  records.forEach(record => {
+    const shot = fromRecord(record);
+    if (!shot || !profileIds.includes(record.profileId)) return;
+    byProfile.set(record.profileId, [...(byProfile.get(record.profileId) || []), shot]);
+  });
+  return byProfile;
+};
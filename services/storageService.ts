@@ -0,0 +1,196 @@
+import { EspressoShot, ShotCurvePoint, ShotTiming } from "../types.ts";
+import { DEFAULT_EQUIPMENT_ID } from "./equipmentService.ts";
+
+/**
+ * Schema-Versionen des Shot-Journals:
+ * 1 – Urform ohne roastDate/temperature (alte index.tsx)
+ * 2 – roastDate und temperature immer gesetzt
+ * 3 – Dial-In Sessions: lockedIn explizit, grindSetting immer String
+ * 4 – Equipment-Profile: tempSetting + equipmentId statt maraXTempSetting
+ */
+export const SHOT_SCHEMA_VERSION = 4;
+
+interface ShotEnvelope {
+  schemaVersion: number;
+  shots: unknown[];
+}
+
+export interface ShotLoadResult {
+  shots: EspressoShot[];
+  dropped: number; // Ungültige Einträge, die beim Laden verworfen wurden
+  migratedFrom: number | null; // Älteste gefundene Version, null wenn bereits aktuell
+}
+
+type RawShot = Record<string, any>;
+
+const MIGRATIONS: Record<number, (shot: RawShot) => RawShot> = {
+  1: (shot) => ({
+    ...shot,
+    roastDate: typeof shot.roastDate === 'string' ? shot.roastDate : '',
+    temperature: typeof shot.temperature === 'number' ? shot.temperature : 0,
+  }),
+  2: (shot) => ({
+    ...shot,
+    lockedIn: Boolean(shot.lockedIn),
+    grindSetting: shot.grindSetting === undefined || shot.grindSetting === null ? '' : String(shot.grindSetting),
+  }),
+  3: ({ maraXTempSetting, ...shot }) => {
+    const { maraXTempSetting: advisedTemp, ...nextShot } = shot.advice?.nextShot || {};
+    return {
+      ...shot,
+      equipmentId: shot.equipmentId || DEFAULT_EQUIPMENT_ID,
+      tempSetting: shot.tempSetting ?? maraXTempSetting ?? '0',
+      advice: shot.advice?.nextShot
+        ? { ...shot.advice, nextShot: { ...nextShot, tempSetting: nextShot.tempSetting ?? advisedTemp } }
+        : shot.advice,
+    };
+  },
+};
+
+// Unversionierte Arrays (Key barista_shots_v3) tragen ihre Version nur implizit in der Form
+export const detectShotVersion = (shot: RawShot): number => {
+  if ('tempSetting' in shot) return 4;
+  if ('lockedIn' in shot || 'sessionId' in shot) return 3;
+  if (typeof shot.roastDate === 'string') return 2;
+  return 1;
+};
+
+export const migrateShot = (shot: RawShot, fromVersion: number): RawShot => {
+  let current = shot;
+  for (let version = fromVersion; version < SHOT_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version](current);
+  }
+  return current;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const clampScore = (value: unknown): number => isFiniteNumber(value) ? Math.min(5, Math.max(1, Math.round(value))) : 3;
+
+const CURVE_KEYS = ['weight', 'flow', 'pressure', 'temperature'] as const;
+
+// Kaputte Messpunkte verwerfen statt den ganzen Shot; leere Kurven entfallen
+const sanitizeCurve = (raw: unknown): ShotCurvePoint[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const points = raw
+    .filter(p => p && typeof p === 'object' && isFiniteNumber(p.t))
+    .map(p => {
+      const point: ShotCurvePoint = { t: p.t };
+      CURVE_KEYS.forEach(key => {
+        if (isFiniteNumber(p[key])) point[key] = p[key];
+      });
+      return point;
+    })
+    .sort((a, b) => a.t - b.t);
+  return points.length > 0 ? points : undefined;
+};
+
+const sanitizeTiming = (raw: any): ShotTiming | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { total, preinfusion, extraction } = raw;
+  return [total, preinfusion, extraction].every(isFiniteNumber) ? { total, preinfusion, extraction } : undefined;
+};
+
+/**
+ * Prüft einen migrierten Datensatz gegen die aktuelle EspressoShot-Form.
+ * Pflichtfelder müssen stimmen, Geschmackswerte werden in 1–5 gezwungen.
+ */
+export const validateShot = (raw: unknown): EspressoShot | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const shot = raw as RawShot;
+  if (typeof shot.id !== 'string' || !shot.id) return null;
+  if (!isFiniteNumber(shot.timestamp)) return null;
+  if (![shot.dose, shot.yield, shot.time].every(isFiniteNumber)) return null;
+  if (typeof shot.tempSetting !== 'string') return null;
+
+  const flavor = shot.flavorProfile && typeof shot.flavorProfile === 'object' ? shot.flavorProfile : {};
+  return {
+    ...(shot as EspressoShot),
+    beanName: typeof shot.beanName === 'string' ? shot.beanName : '',
+    notes: typeof shot.notes === 'string' ? shot.notes : '',
+    curve: sanitizeCurve(shot.curve),
+    timing: sanitizeTiming(shot.timing),
+    tds: isFiniteNumber(shot.tds) && shot.tds > 0 && shot.tds <= 30 ? shot.tds : undefined,
+    flavorProfile: {
+      sourness: clampScore(flavor.sourness),
+      bitterness: clampScore(flavor.bitterness),
+      body: clampScore(flavor.body),
+      sweetness: clampScore(flavor.sweetness),
+      overall: clampScore(flavor.overall),
+    },
+  };
+};
+
+// Einzelner Datensatz: migrieren und validieren, null bei unbrauchbaren Einträgen
+export const parseShotRecord = (raw: RawShot, version: number = detectShotVersion(raw)): EspressoShot | null => {
+  if (version > SHOT_SCHEMA_VERSION) return null;
+  try {
+    return validateShot(migrateShot(raw, version));
+  } catch {
+    return null;
+  }
+};
+
+export const parseShotPayload = (payload: unknown): ShotLoadResult => {
+  const envelope: ShotEnvelope | null = Array.isArray(payload)
+    ? { schemaVersion: 0, shots: payload }
+    : payload && typeof payload === 'object' && Array.isArray((payload as ShotEnvelope).shots)
+      ? payload as ShotEnvelope
+      : null;
+  if (!envelope) return { shots: [], dropped: 0, migratedFrom: null };
+
+  const shots: EspressoShot[] = [];
+  let dropped = 0;
+  let migratedFrom: number | null = null;
+
+  for (const raw of envelope.shots) {
+    if (!raw || typeof raw !== 'object') {
+      dropped++;
+      continue;
+    }
+    const version = envelope.schemaVersion || detectShotVersion(raw as RawShot);
+    if (version < SHOT_SCHEMA_VERSION) migratedFrom = Math.min(migratedFrom ?? version, version);
+    const shot = parseShotRecord(raw as RawShot, version);
+    if (shot) shots.push(shot);
+    else dropped++;
+  }
+
+  return { shots, dropped, migratedFrom };
+};
+
+// Rohdaten verworfener oder unlesbarer Journale, damit nichts stillschweigend verloren geht
+export const corruptBackupKey = (key: string): string => `${key}:corrupt`;
+
+export const readShots = (key: string): ShotLoadResult => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return { shots: [], dropped: 0, migratedFrom: null };
+  try {
+    const result = parseShotPayload(JSON.parse(saved));
+    // Verworfene Einträge wären nach dem nächsten writeShots endgültig weg
+    if (result.dropped > 0) localStorage.setItem(corruptBackupKey(key), saved);
+    return result;
+  } catch (e) {
+    console.error("Journal nicht lesbar:", e);
+    // Rohdaten sichern, bevor der nächste Speichervorgang den Key überschreibt
+    localStorage.setItem(corruptBackupKey(key), saved);
+    return { shots: [], dropped: 1, migratedFrom: null };
+  }
+};
+
+export const writeShots = (key: string, shots: EspressoShot[]) => {
+  const envelope: ShotEnvelope = { schemaVersion: SHOT_SCHEMA_VERSION, shots };
+  localStorage.setItem(key, JSON.stringify(envelope));
+};
+
+// Für Listen ohne eigenes Schema (Tüten, Equipment, Profile): kaputtes JSON oder Einträge ohne id ignorieren
+export const readCollection = <T extends { id: string }>(key: string): T[] | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.filter((item): item is T => item && typeof item === 'object' && typeof item.id === 'string');
+  } catch (e) {
+    console.error(`${key} nicht lesbar:`, e);
+    return null;
+  }
+};
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getShotsPerDay } from '../services/analyticsService.ts';
+import { EspressoShot } from '../types.ts';
+
+const shotAt = (timestamp: number): EspressoShot => ({
+  id: String(timestamp),
+  timestamp,
+  beanName: 'Yirgacheffe',
+  roastDate: '',
+  dose: 18,
+  yield: 36,
+  time: 28,
+  temperature: 0,
+  tempSetting: 'I',
+  grindSetting: '2.4',
+  notes: '',
+  flavorProfile: { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall: 3 },
+});
+
+describe('getShotsPerDay', () => {
+  const previousTz = process.env.TZ;
+
+  // Zeitzone mit Sommerzeit, damit der 25-Stunden-Tag Ende Oktober vorkommt
+  beforeAll(() => {
+    process.env.TZ = 'Europe/Berlin';
+  });
+
+  afterAll(() => {
+    if (previousTz === undefined) delete process.env.TZ;
+    else process.env.TZ = previousTz;
+  });
+
+  it('zählt über die Zeitumstellung Ende Oktober jeden Kalendertag genau einmal', () => {
+    const now = new Date(2024, 9, 27, 23, 30).getTime();
+    const shots = [
+      shotAt(new Date(2024, 9, 25, 8).getTime()),
+      shotAt(new Date(2024, 9, 26, 8).getTime()),
+      shotAt(new Date(2024, 9, 27, 0, 30).getTime()),
+      shotAt(new Date(2024, 9, 27, 22).getTime()),
+    ];
+    expect(getShotsPerDay(shots, 3, now)).toEqual([
+      { label: '25.10.', shots: 1 },
+      { label: '26.10.', shots: 1 },
+      { label: '27.10.', shots: 2 },
+    ]);
+  });
+
+  it('liefert eine lückenlose Reihe, heute zuletzt', () => {
+    const series = getShotsPerDay([], 14, new Date(2024, 10, 5, 12).getTime());
+    expect(series).toHaveLength(14);
+    expect(series[0].label).toBe('23.10.');
+    expect(series[13].label).toBe('05.11.');
+    expect(new Set(series.map(d => d.label)).size).toBe(14);
+  });
+});
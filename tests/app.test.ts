@@ -0,0 +1,83 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider, createMockProvider, getActiveProvider, needsKeySetup, saveAiSettings, DEFAULT_AI_SETTINGS } from '../services/aiProvider.ts';
+import { searchCoffeeParameters } from '../services/geminiService.ts';
+import { getSearchError } from '../services/searchResponseService.ts';
+import { BUILT_IN_PROFILES } from '../services/equipmentService.ts';
+import { installLocalStorage } from './localStorage.ts';
+
+const root = new URL('../', import.meta.url);
+const readSource = (path: string): string => readFileSync(new URL(path, root), 'utf8');
+
+describe('Key-Setup', () => {
+  beforeEach(() => {
+    installLocalStorage();
+  });
+
+  it('verlangt für Gemini ohne Key das Setup', () => {
+    expect(needsKeySetup(createGeminiProvider(undefined, () => ''))).toBe(true);
+  });
+
+  it('überspringt das Setup mit Key, in AI Studio und für andere Anbieter', () => {
+    expect(needsKeySetup(createGeminiProvider(undefined, () => 'key'))).toBe(false);
+    expect(needsKeySetup(createGeminiProvider(undefined, () => ''), true)).toBe(false);
+    expect(needsKeySetup(createMockProvider())).toBe(false);
+  });
+
+  it('folgt dem gespeicherten Anbieter', () => {
+    saveAiSettings({ ...DEFAULT_AI_SETTINGS, provider: 'mock' });
+    expect(needsKeySetup(getActiveProvider())).toBe(false);
+  });
+});
+
+describe('Fehler der Rezeptsuche', () => {
+  beforeEach(() => {
+    installLocalStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('zeigt die Meldung des Dienstes statt eines leeren Ergebnisses', async () => {
+    const provider = createGeminiProvider(undefined, () => '');
+    const rec = await searchCoffeeParameters('Yirgacheffe', BUILT_IN_PROFILES[0], provider);
+    expect(getSearchError(rec)).toBe('Kein API Key vorhanden. Bitte Setup durchführen.');
+  });
+
+  it('fällt ohne Beschreibung auf den Verbindungshinweis zurück', async () => {
+    const provider = createMockProvider(() => '{"found": false}');
+    const rec = await searchCoffeeParameters('Yirgacheffe', BUILT_IN_PROFILES[0], provider);
+    expect(getSearchError(rec)).toBe('Suche war nicht erfolgreich. Prüfe deine Verbindung.');
+  });
+
+  it('meldet keinen Fehler bei Treffer oder Quellen', () => {
+    expect(getSearchError({ found: true, sources: [] })).toBeNull();
+    expect(getSearchError({ found: false, sources: [{ title: 'Röster', uri: 'https://example.com' }] })).toBeNull();
+  });
+});
+
+// Früher lebte in index.tsx eine zweite, auseinandergelaufene Kopie der App
+describe('Einstiegspunkt', () => {
+  it('rendert nur die modulare App', () => {
+    const entry = readSource('index.tsx');
+    expect(entry).toContain("import App from './App.tsx'");
+    ['GoogleGenAI', 'const App', 'interface EspressoShot', 'searchCoffeeParameters', 'getBaristaAdvice', 'ShotTimer', 'ShotCard']
+      .forEach(symbol => expect(entry).not.toContain(symbol));
+  });
+
+  it('definiert jedes Modell, jeden Dienst und jede Komponente genau einmal', () => {
+    const files = [
+      'index.tsx', 'App.tsx', 'types.ts',
+      ...readdirSync(new URL('services/', root)).map(f => `services/${f}`),
+      ...readdirSync(new URL('components/', root)).map(f => `components/${f}`),
+    ].filter(f => /\.tsx?$/.test(f));
+    const definitions = files.flatMap(file =>
+      [...readSource(file).matchAll(/^(?:export )?(?:const|interface|type|function) (\w+)/gm)].map(m => `${m[1]} (${file})`)
+    );
+    const count = (name: string) => definitions.filter(d => d.startsWith(`${name} (`)).length;
+    ['EspressoShot', 'DialInAdvice', 'searchCoffeeParameters', 'getBaristaAdvice', 'ShotTimer', 'ShotCard', 'App', 'ApiKeySetup', 'getGeminiApiKey']
+      .forEach(name => expect(count(name), name).toBe(1));
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { EspressoShot } from '../types.ts';
+import { exportJournalCsv, mergeShots } from '../services/exportService.ts';
+import { BUILT_IN_PROFILES } from '../services/equipmentService.ts';
+
+const shot = (id: string, timestamp: number, fields: Partial<EspressoShot> = {}): EspressoShot => ({
+  id,
+  timestamp,
+  beanName: 'Guji',
+  roastDate: '',
+  dose: 18,
+  yield: 36,
+  time: 27,
+  temperature: 0,
+  tempSetting: '0',
+  grindSetting: '2.4',
+  notes: '',
+  flavorProfile: { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall: 3 },
+  ...fields,
+});
+
+describe('exportJournalCsv', () => {
+  it('entschärft Zellen, die ein Tabellenprogramm als Formel lesen würde', () => {
+    const csv = exportJournalCsv([
+      shot('1', 1, { beanName: '=HYPERLINK("http://x")', notes: '@SUM(A1)' }),
+      shot('2', 2, { beanName: '+49 Blend', notes: '-sauer' }),
+    ], BUILT_IN_PROFILES);
+    const [, first, second] = csv.split('\n');
+    expect(first).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(first).toContain(`'@SUM(A1)`);
+    expect(second).toContain(`'+49 Blend`);
+    expect(second).toContain(`'-sauer`);
+  });
+
+  it('lässt Zahlen unverändert', () => {
+    const [, row] = exportJournalCsv([shot('1', 1)], BUILT_IN_PROFILES).split('\n');
+    expect(row).toContain(',18,36,2.00,27,');
+  });
+});
+
+describe('mergeShots', () => {
+  it('sortiert neueste zuerst', () => {
+    expect(mergeShots([shot('a', 1)], [shot('b', 2)]).map(s => s.id)).toEqual(['b', 'a']);
+  });
+
+  it('übernimmt keine IDs doppelt, etwa beim Wiederherstellen eines importierten Shots', () => {
+    const existing = [shot('a', 1, { notes: 'aktuell' })];
+    const merged = mergeShots(existing, [shot('a', 1, { notes: 'aus dem Papierkorb' }), shot('b', 2), shot('b', 2)]);
+    expect(merged.map(s => s.id)).toEqual(['b', 'a']);
+    expect(merged[1].notes).toBe('aktuell');
+  });
+});
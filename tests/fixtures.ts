@@ -0,0 +1,6 @@
+import { readFileSync } from 'node:fs';
+
+// Fixtures liegen als Rohdateien vor, genau wie sie aus localStorage oder einem Export kommen
+export const readFixture = (name: string): string => {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+};
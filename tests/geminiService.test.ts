@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getBaristaAdvice, searchCoffeeParameters } from '../services/geminiService.ts';
+import { createMockProvider } from '../services/aiProvider.ts';
+import { BUILT_IN_PROFILES } from '../services/equipmentService.ts';
+import { EspressoShot } from '../types.ts';
+import { installLocalStorage } from './localStorage.ts';
+
+const [maraX, niche, mignon] = BUILT_IN_PROFILES;
+
+const shot: EspressoShot = {
+  id: 'shot-1',
+  timestamp: Date.UTC(2024, 2, 1),
+  beanName: 'Yirgacheffe',
+  roastDate: '',
+  dose: 18,
+  yield: 36,
+  time: 22,
+  temperature: 0,
+  equipmentId: maraX.id,
+  tempSetting: 'I',
+  grindSetting: '2.4',
+  notes: '',
+  flavorProfile: { sourness: 4, bitterness: 2, body: 3, sweetness: 2, overall: 2 },
+};
+
+const adviceReply = (nextShot: unknown) => () => JSON.stringify({
+  diagnosis: 'Unterextrahiert',
+  recommendation: 'Feiner mahlen',
+  adjustment: 'Mahlgrad -0.2',
+  explanation: 'Zu schnell durchgelaufen.',
+  nextShot,
+});
+
+describe('getBaristaAdvice', () => {
+  beforeEach(() => {
+    installLocalStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('übernimmt die Antwort des Anbieters samt nextShot', async () => {
+    const provider = createMockProvider();
+    const advice = await getBaristaAdvice(shot, [], maraX, provider);
+    expect(provider.requests).toHaveLength(1);
+    expect(advice.source).toBe('mock');
+    expect(advice.nextShot).toEqual({ grindDelta: 0, targetDose: 18, targetYield: 36, targetTime: 28, tempSetting: 'I' });
+  });
+
+  it('liest Zahlen als Strings mit Komma und Einheit', async () => {
+    const provider = createMockProvider(adviceReply({ grindDelta: '-0,2', targetDose: '18 g', targetYield: '40', targetTime: 29.6, tempSetting: 'Stufe II' }));
+    const advice = await getBaristaAdvice(shot, [], maraX, provider);
+    expect(advice.nextShot).toEqual({ grindDelta: -0.2, targetDose: 18, targetYield: 40, targetTime: 30, tempSetting: 'II' });
+  });
+
+  it('rundet den Mahlgradschritt auf die Skala der Mühle', async () => {
+    const provider = createMockProvider(adviceReply({ grindDelta: 0.3, targetDose: 18, targetYield: 36, targetTime: 28, tempSetting: 'Kurz' }));
+    const advice = await getBaristaAdvice(shot, [], mignon, provider);
+    expect(advice.nextShot?.grindDelta).toBe(0.25);
+    expect(advice.nextShot?.tempSetting).toBe('Kurz');
+  });
+
+  it('verwirft nextShot mit fehlenden oder unplausiblen Zahlen', async () => {
+    const missing = createMockProvider(adviceReply({ grindDelta: 'feiner', targetDose: 18, targetYield: 36, targetTime: 28 }));
+    expect((await getBaristaAdvice(shot, [], maraX, missing)).nextShot).toBeUndefined();
+
+    const outOfRange = createMockProvider(adviceReply({ grindDelta: -0.2, targetDose: 180, targetYield: 36, targetTime: 28 }));
+    expect((await getBaristaAdvice(shot, [], maraX, outOfRange)).nextShot).toBeUndefined();
+
+    const notAnObject = createMockProvider(adviceReply('etwas feiner'));
+    expect((await getBaristaAdvice(shot, [], maraX, notAnObject)).nextShot).toBeUndefined();
+  });
+
+  it('behält die bisherige Temperatur bei ungültiger Einstellung', async () => {
+    const provider = createMockProvider(adviceReply({ grindDelta: 0, targetDose: 18, targetYield: 36, targetTime: 28, tempSetting: '120' }));
+    const advice = await getBaristaAdvice({ ...shot, tempSetting: '93' }, [], niche, provider);
+    expect(advice.nextShot?.tempSetting).toBe('93');
+  });
+
+  it('fällt ohne gültige Analyse auf den Offline-Coach zurück', async () => {
+    const provider = createMockProvider(() => 'Ich kann dazu leider nichts sagen.');
+    const advice = await getBaristaAdvice(shot, [], maraX, provider);
+    expect(advice.source).toBe('offline');
+  });
+
+  it('fragt einen nicht erreichbaren Anbieter gar nicht erst', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const provider = { ...createMockProvider(), needsNetwork: true };
+    const advice = await getBaristaAdvice(shot, [], maraX, provider);
+    expect(advice.source).toBe('offline');
+    expect(provider.requests).toHaveLength(0);
+  });
+});
+
+describe('searchCoffeeParameters', () => {
+  beforeEach(() => {
+    installLocalStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('liefert das normalisierte Rezept des Anbieters', async () => {
+    const provider = createMockProvider(() => '```json\n{"found": true, "dose": "18", "yield": "36-40", "time": 28, "tempSetting": "II"}\n```');
+    const result = await searchCoffeeParameters('Yirgacheffe', maraX, provider);
+    expect(provider.requests[0].search).toBe(true);
+    expect(provider.requests[0].prompt).toContain('Yirgacheffe');
+    expect(result).toMatchObject({ found: true, dose: 18, time: 28, tempSetting: 'II', sources: [] });
+  });
+
+  it('meldet fehlende Konfiguration, ohne den Anbieter zu fragen', async () => {
+    const provider = { ...createMockProvider(), isConfigured: () => false };
+    const result = await searchCoffeeParameters('Yirgacheffe', maraX, provider);
+    expect(result).toEqual({ found: false, sources: [], description: 'Kein API Key vorhanden. Bitte Setup durchführen.' });
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('meldet fehlende Verbindung', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const provider = { ...createMockProvider(), needsNetwork: true };
+    const result = await searchCoffeeParameters('Yirgacheffe', maraX, provider);
+    expect(result.description).toBe('Keine Verbindung. Die Rezeptsuche braucht Internet.');
+  });
+
+  it('reicht Fehler des Anbieters als Beschreibung durch', async () => {
+    const provider = { ...createMockProvider(), generate: async () => { throw new Error('Quota erschöpft'); } };
+    const result = await searchCoffeeParameters('Yirgacheffe', maraX, provider);
+    expect(result).toEqual({ found: false, sources: [], description: 'API Fehler: Quota erschöpft' });
+  });
+});
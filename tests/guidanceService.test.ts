@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getPacing, LiveShotState, ShotTargets } from '../services/guidanceService.ts';
+
+const targets: ShotTargets = { timeMin: 25, timeMax: 30, yield: 36, preinfusion: 8 };
+const live = (fields: Partial<LiveShotState>): LiveShotState => ({ phase: 'extracting', elapsed: 10, pumpTime: 8, ...fields });
+
+describe('getPacing ohne Waage', () => {
+  it('meldet einen zu späten ersten Tropfen schon beim Pumpen', () => {
+    expect(getPacing(live({ phase: 'pumping', elapsed: 0, pumpTime: 11 }), targets)).toBe('slow');
+    expect(getPacing(live({ phase: 'pumping', elapsed: 0, pumpTime: 4 }), targets)).toBe('on-track');
+  });
+
+  it('bewertet die Extraktion nach der Zeit bis zum ersten Tropfen', () => {
+    expect(getPacing(live({ pumpTime: 4 }), targets)).toBe('fast');
+    expect(getPacing(live({ pumpTime: 12 }), targets)).toBe('slow');
+    expect(getPacing(live({ pumpTime: 9 }), targets)).toBe('on-track');
+  });
+
+  it('meldet schon in den ersten Sekunden, wenn der Tropfen zu früh kam', () => {
+    expect(getPacing(live({ elapsed: 2, pumpTime: 3 }), targets)).toBe('fast');
+  });
+
+  it('fällt ohne Vorinfusionsziel auf die Zeit zurück', () => {
+    const timeOnly = { timeMin: 25, timeMax: 30 };
+    expect(getPacing(live({ elapsed: 20 }), timeOnly)).toBe('on-track');
+    expect(getPacing(live({ elapsed: 31 }), timeOnly)).toBe('slow');
+  });
+});
+
+describe('getPacing mit Waage', () => {
+  it('rechnet das Zielgewicht über den Durchfluss hoch', () => {
+    expect(getPacing(live({ elapsed: 10, weight: 20, flow: 2 }), targets)).toBe('fast');
+    expect(getPacing(live({ elapsed: 10, weight: 12, flow: 1.5 }), targets)).toBe('on-track');
+    expect(getPacing(live({ elapsed: 10, weight: 5, flow: 0.5 }), targets)).toBe('slow');
+  });
+
+  it('wartet die unruhigen ersten Sekunden ab', () => {
+    expect(getPacing(live({ elapsed: 3, weight: 1, flow: 1 }), targets)).toBe('unknown');
+  });
+});
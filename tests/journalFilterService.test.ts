@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilter, parseFilter, serializeFilter, EMPTY_FILTER, JournalFilter } from '../services/journalFilterService.ts';
+import { EspressoShot } from '../types.ts';
+
+// Lokale Zeit, wie sie die Datumsfelder der Oberfläche liefern
+const at = (day: number, hour = 12, minute = 0) => new Date(2024, 2, day, hour, minute).getTime();
+
+const shot = (id: string, fields: Partial<EspressoShot> = {}, overall = 3): EspressoShot => ({
+  id,
+  timestamp: at(10),
+  beanName: 'Yirgacheffe',
+  roastDate: '',
+  dose: 18,
+  yield: 36,
+  time: 28,
+  temperature: 0,
+  tempSetting: 'I',
+  grindSetting: '2.4',
+  notes: '',
+  ...fields,
+  flavorProfile: { sourness: 3, bitterness: 3, body: 3, sweetness: 3, overall },
+});
+
+const ids = (shots: EspressoShot[]) => shots.map(s => s.id);
+const filter = (fields: Partial<JournalFilter>): JournalFilter => ({ ...EMPTY_FILTER, ...fields });
+
+describe('parseFilter / serializeFilter', () => {
+  it('übersteht den Weg über die URL mit allen Parametern', () => {
+    const full: JournalFilter = {
+      query: 'schoko nuss', bean: 'Yirgacheffe', from: '2024-03-01', to: '2024-03-31', period: 'month',
+      tempSetting: 'II', minRating: 4, ratio: 'ristretto', sort: 'rating',
+    };
+    const search = serializeFilter(full);
+    expect(search).toContain('q=schoko+nuss');
+    expect(search).toContain('temp=II');
+    expect(parseFilter(search)).toEqual(full);
+  });
+
+  it('lässt Standardwerte weg und behält fremde Parameter', () => {
+    expect(serializeFilter(EMPTY_FILTER)).toBe('');
+    expect(serializeFilter(filter({ sort: 'time' }), '?debug=1&q=alt')).toBe('?debug=1&sort=time');
+  });
+
+  it.each([
+    ['ungültiges Datum', '?from=2024-02-31&to=gestern', { from: '', to: '' }],
+    ['unbekannte Sortierung', '?sort=random', { sort: 'newest' }],
+    ['unbekannter Zeitraum und Ratio', '?period=decade&ratio=doppio', { period: '', ratio: '' }],
+    ['Bewertung außerhalb 1–5', '?rating=7', { minRating: 0 }],
+    ['Bewertung ohne Zahl', '?rating=viel', { minRating: 0 }],
+  ])('ignoriert %s', (_, search, expected) => {
+    expect(parseFilter(search)).toEqual(filter(expected as Partial<JournalFilter>));
+  });
+});
+
+describe('applyFilter', () => {
+  it('schließt "von" ab Mitternacht und "bis" bis zum Tagesende ein', () => {
+    const shots = [
+      shot('davor', { timestamp: at(4, 23, 59) }),
+      shot('erster', { timestamp: at(5, 0, 0) }),
+      shot('letzter', { timestamp: new Date(2024, 2, 7, 23, 59, 59, 999).getTime() }),
+      shot('danach', { timestamp: at(8, 0, 0) }),
+    ];
+    expect(ids(applyFilter(shots, filter({ from: '2024-03-05', to: '2024-03-07', sort: 'oldest' })))).toEqual(['erster', 'letzter']);
+  });
+
+  it('gibt einem relativen Zeitraum Vorrang vor von/bis', () => {
+    const now = new Date(2024, 2, 15, 12);
+    const shots = [shot('februar', { timestamp: new Date(2024, 1, 28).getTime() }), shot('maerz', { timestamp: at(1, 0, 0) })];
+    expect(ids(applyFilter(shots, filter({ period: 'month', from: '2024-01-01' }), now))).toEqual(['maerz']);
+    expect(ids(applyFilter(shots, filter({ period: 'week' }), now))).toEqual([]);
+  });
+
+  it('ordnet die Grenze eines Ratio-Bands dem höheren Band zu', () => {
+    const shots = [shot('1:1.4', { yield: 25.2 }), shot('1:1.5', { yield: 27 }), shot('1:2.5', { yield: 45 }), shot('ohne Dosis', { dose: 0 })];
+    expect(ids(applyFilter(shots, filter({ ratio: 'ristretto' })))).toEqual(['1:1.4', 'ohne Dosis']);
+    expect(ids(applyFilter(shots, filter({ ratio: 'normale' })))).toEqual(['1:1.5']);
+    expect(ids(applyFilter(shots, filter({ ratio: 'lungo' })))).toEqual(['1:2.5']);
+  });
+
+  it('kombiniert Volltext, Bohne, Temperatur und Mindestbewertung', () => {
+    const shots = [
+      shot('treffer', { notes: 'Schokolade, Nuss' }, 4),
+      shot('andere bohne', { beanName: 'Sidamo', notes: 'Schokolade' }, 4),
+      shot('andere stufe', { notes: 'Schokolade', tempSetting: 'II' }, 4),
+      shot('schlecht', { notes: 'Schokolade' }, 2),
+    ];
+    const result = applyFilter(shots, filter({ query: 'schoko yirga', bean: 'yirgacheffe', tempSetting: 'I', minRating: 4 }));
+    expect(ids(result)).toEqual(['treffer']);
+  });
+
+  it.each([
+    ['newest', ['c', 'b', 'a']],
+    ['oldest', ['a', 'b', 'c']],
+    ['rating', ['c', 'b', 'a']],
+    ['time', ['c', 'a', 'b']],
+    ['ratio', ['a', 'c', 'b']],
+  ] as const)('sortiert nach %s', (sort, expected) => {
+    const shots = [
+      shot('a', { timestamp: at(1), time: 25, yield: 30 }, 3),
+      shot('b', { timestamp: at(2), time: 30, yield: 40 }, 5),
+      shot('c', { timestamp: at(3), time: 25, yield: 36 }, 5),
+    ];
+    expect(ids(applyFilter(shots, filter({ sort })))).toEqual(expected);
+  });
+});
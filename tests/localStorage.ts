@@ -0,0 +1,14 @@
+// Minimaler localStorage für Tests in Node, ohne jsdom
+export const installLocalStorage = (): Storage => {
+  const data = new Map<string, string>();
+  const storage: Storage = {
+    get length() { return data.size; },
+    clear: () => data.clear(),
+    getItem: (key) => data.has(key) ? data.get(key)! : null,
+    key: (index) => [...data.keys()][index] ?? null,
+    removeItem: (key) => { data.delete(key); },
+    setItem: (key, value) => { data.set(key, String(value)); },
+  };
+  Object.defineProperty(globalThis, 'localStorage', { value: storage, configurable: true, writable: true });
+  return storage;
+};
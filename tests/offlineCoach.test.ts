@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { getOfflineAdvice } from '../services/offlineCoach.ts';
+import { BUILT_IN_PROFILES } from '../services/equipmentService.ts';
+import { EspressoShot } from '../types.ts';
+
+const [maraX, niche, mignon] = BUILT_IN_PROFILES;
+
+type ShotFields = Partial<Omit<EspressoShot, 'flavorProfile'>> & { flavor?: Partial<EspressoShot['flavorProfile']> };
+
+const shot = ({ flavor, ...fields }: ShotFields = {}): EspressoShot => ({
+  id: 'shot-1',
+  timestamp: Date.UTC(2024, 2, 1),
+  beanName: 'Yirgacheffe',
+  roastDate: '',
+  dose: 18,
+  yield: 36,
+  time: 28,
+  temperature: 0,
+  tempSetting: 'I',
+  grindSetting: '2.4',
+  notes: '',
+  ...fields,
+  flavorProfile: { sourness: 3, bitterness: 3, body: 3, sweetness: 4, overall: 3, ...flavor },
+});
+
+describe('getOfflineAdvice', () => {
+  it.each([
+    {
+      name: 'sauer und zu schnell: feiner, mehr Ertrag',
+      shot: shot({ time: 20, yield: 30, flavor: { sourness: 5, bitterness: 2 } }),
+      diagnosis: 'Unterextraktion',
+      nextShot: { grindDelta: -0.6, targetDose: 18, targetYield: 32.4, targetTime: 29, tempSetting: 'I' },
+    },
+    {
+      name: 'bitter und zu langsam: gröber, weniger Ertrag',
+      shot: shot({ time: 38, yield: 48, flavor: { sourness: 1, bitterness: 4 } }),
+      diagnosis: 'Überextraktion',
+      nextShot: { grindDelta: 0.6, targetDose: 18, targetYield: 45, targetTime: 29, tempSetting: 'I' },
+    },
+    {
+      name: 'ausgewogen im Zeitfenster: Rezept beibehalten',
+      shot: shot(),
+      diagnosis: 'Ausgewogene Extraktion',
+      nextShot: { grindDelta: 0, targetDose: 18, targetYield: 36, targetTime: 29, tempSetting: 'I' },
+    },
+  ])('$name', ({ shot, diagnosis, nextShot }) => {
+    const advice = getOfflineAdvice(shot, [], maraX);
+    expect(advice.diagnosis).toContain(diagnosis);
+    expect(advice.nextShot).toEqual(nextShot);
+    expect(advice.source).toBe('offline');
+  });
+
+  it('nennt bei unverändertem Rezept keine Änderung', () => {
+    expect(getOfflineAdvice(shot(), [], maraX).adjustment).toBe('Rezept beibehalten');
+  });
+
+  it.each([
+    { equipment: maraX, time: 20, grindDelta: -0.6 }, // 8,5 s / 1,5 s pro Schritt ≈ 6 × 0,1
+    { equipment: niche, time: 20, grindDelta: -3 }, // 8,5 s / 2,5 s ≈ 3 × 1
+    { equipment: mignon, time: 20, grindDelta: -1 }, // 8,5 s / 2 s ≈ 4 × 0,25
+    { equipment: maraX, time: 5, grindDelta: -1 }, // gedeckelt auf 10 Schritte
+    { equipment: maraX, time: 27, grindDelta: -0.1 }, // mindestens ein Schritt
+  ])('rechnet die Zeitabweichung mit $equipment.grinder.name in Skalenschritte um ($time s)', ({ equipment, time, grindDelta }) => {
+    const advice = getOfflineAdvice(shot({ time, flavor: { sourness: 5, bitterness: 2 }, tempSetting: equipment.machine.tempSteps?.[1] ?? '93' }), [], equipment);
+    expect(advice.nextShot?.grindDelta).toBe(grindDelta);
+  });
+
+  it.each([
+    { name: 'sauer im Zeitfenster: heißer', equipment: maraX, tempSetting: 'I', flavor: { sourness: 4, bitterness: 2 }, time: 27, expected: 'II' },
+    { name: 'bitter im Zeitfenster: kühler', equipment: maraX, tempSetting: 'I', flavor: { sourness: 2, bitterness: 4 }, time: 30, expected: '0' },
+    { name: 'stufenlos einen Schritt heißer', equipment: niche, tempSetting: '93', flavor: { sourness: 4, bitterness: 2 }, time: 27, expected: '93.5' },
+    { name: 'außerhalb des Zeitfensters zuerst der Mahlgrad', equipment: maraX, tempSetting: 'I', flavor: { sourness: 4, bitterness: 2 }, time: 20, expected: 'I' },
+  ])('$name', ({ equipment, tempSetting, flavor, time, expected }) => {
+    const advice = getOfflineAdvice(shot({ tempSetting, flavor, time }), [], equipment);
+    expect(advice.nextShot?.tempSetting).toBe(expected);
+  });
+
+  it('kündigt Ertrags- und Temperaturänderungen in der Anpassung an', () => {
+    const advice = getOfflineAdvice(shot({ time: 27, yield: 30, flavor: { sourness: 4, bitterness: 2 } }), [], maraX);
+    expect(advice.adjustment).toContain('Ertrag auf 32.4g');
+    expect(advice.adjustment).toContain('einstellen');
+  });
+
+  it.each([
+    { name: 'dünn', yield: 54, tds: 7, targetYield: 37.8, diagnosis: 'zu dünn' }, // EY 21 %
+    { name: 'konzentriert', yield: 27, tds: 13, targetYield: 35.1, diagnosis: 'sehr konzentriert' }, // EY 19,5 %
+  ])('korrigiert eine $name gemessene Stärke nur über den Ertrag', ({ yield: y, tds, targetYield, diagnosis }) => {
+    const advice = getOfflineAdvice(shot({ yield: y, tds, time: 20 }), [], maraX);
+    expect(advice.diagnosis).toContain(diagnosis);
+    expect(advice.nextShot?.grindDelta).toBe(0);
+    expect(advice.nextShot?.targetYield).toBe(targetYield);
+  });
+
+  it('folgt der gemessenen Extraktion vor dem Geschmack', () => {
+    // EY 16 % trotz ausgewogenem Geschmack
+    const advice = getOfflineAdvice(shot({ tds: 8 }), [], maraX);
+    expect(advice.diagnosis).toContain('Unterextraktion');
+    expect(advice.nextShot?.grindDelta).toBe(-0.1);
+  });
+
+  it('bewertet den Verlauf gegenüber dem letzten Shot', () => {
+    const previous = shot({ id: 'shot-0', grindSetting: '2.6', flavor: { overall: 2 } });
+    const advice = getOfflineAdvice(shot({ flavor: { overall: 4 } }), [previous], maraX);
+    expect(advice.trajectory).toContain('hat geholfen');
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeFlow, createSimulatedScale, toCurve, ScaleReading, SCALE_PROTOCOLS } from '../services/scaleService.ts';
+
+const frame = (...values: number[]) => new DataView(new Uint8Array(values).buffer);
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+
+// Linearer Anstieg mit 2 g/s, alle 250 ms ein Messwert
+const pour = (from: number, to: number): ScaleReading[] =>
+  Array.from({ length: (to - from) / 250 + 1 }, (_, i) => ({ timestamp: from + i * 250, weight: (i * 250) / 500 }));
+
+describe('computeFlow', () => {
+  it('braucht mindestens zwei Messwerte', () => {
+    expect(computeFlow([])).toBe(0);
+    expect(computeFlow([{ timestamp: 0, weight: 5 }])).toBe(0);
+  });
+
+  it('rechnet über das gleitende Fenster', () => {
+    expect(computeFlow(pour(0, 3000))).toBeCloseTo(2);
+    const stalled = [...pour(0, 2000), { timestamp: 2500, weight: 4 }, { timestamp: 3000, weight: 4 }];
+    expect(computeFlow(stalled)).toBe(0);
+  });
+
+  it('meldet keinen negativen Fluss, wenn die Tasse entlastet wird', () => {
+    expect(computeFlow([{ timestamp: 0, weight: 10 }, { timestamp: 500, weight: 8 }])).toBe(0);
+  });
+});
+
+describe('toCurve', () => {
+  it('beginnt beim ersten Tropfen und rundet Zeit, Gewicht und Fluss', () => {
+    const readings = [{ timestamp: 500, weight: 0.04 }, ...pour(1000, 2000).map(r => ({ ...r, weight: r.weight + 0.01 }))];
+    const curve = toCurve(readings, 1000);
+    expect(curve[0]).toEqual({ t: 0, weight: 0, flow: 0 });
+    expect(curve).toHaveLength(5);
+    expect(curve[4]).toEqual({ t: 1, weight: 2, flow: 2 });
+  });
+});
+
+describe('Gewichtsparser', () => {
+  it('liest Acaia-Gewichtsevents samt Vorzeichen', () => {
+    const { parse } = SCALE_PROTOCOLS.acaia;
+    expect(parse(frame(0xef, 0xdd, 12, 8, 5, 0x6d, 0x01, 0, 0, 1, 0))).toBe(36.5);
+    expect(parse(frame(0xef, 0xdd, 12, 8, 5, 0x14, 0x00, 0, 0, 1, 2))).toBe(-2);
+    // Kein Gewichtsevent (Event 7 = Timer)
+    expect(parse(frame(0xef, 0xdd, 12, 8, 7, 0x6d, 0x01, 0, 0, 1, 0))).toBeNull();
+  });
+
+  it('liest Felicita-ASCII-Frames', () => {
+    const { parse } = SCALE_PROTOCOLS.felicita;
+    expect(parse(frame(0x01, 0x02, ...ascii('+003650'), 0x00))).toBe(36.5);
+    expect(parse(frame(0x01, 0x02, ...ascii('-000200'), 0x00))).toBe(-2);
+    expect(parse(frame(0x01, 0x02, ...ascii('+00 ---'), 0x00))).toBeNull();
+    expect(parse(frame(0x01, 0x02, 0x2b))).toBeNull();
+  });
+
+  it('liest Decent-Scale-Frames', () => {
+    const { parse } = SCALE_PROTOCOLS.decent;
+    expect(parse(frame(0x03, 0xce, 0x01, 0x6d, 0, 0, 0))).toBe(36.5);
+    expect(parse(frame(0x03, 0xca, 0xff, 0xec, 0, 0, 0))).toBe(-2);
+    expect(parse(frame(0x03, 0x0f, 0x01, 0x6d))).toBeNull();
+  });
+
+  it('liest Bookoo-Frames', () => {
+    const { parse } = SCALE_PROTOCOLS.bookoo;
+    expect(parse(frame(0x03, 0x0b, 0, 0, 0, 0, 0x2b, 0x00, 0x0e, 0x42))).toBe(36.5);
+    expect(parse(frame(0x03, 0x0b, 0, 0, 0, 0, 0x2d, 0x00, 0x00, 0xc8))).toBe(-2);
+    expect(parse(frame(0x03, 0x0c, 0, 0, 0, 0, 0x2b, 0x00, 0x0e, 0x42))).toBeNull();
+  });
+});
+
+describe('createSimulatedScale', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const record = (scale: ReturnType<typeof createSimulatedScale>) => {
+    const weights: number[] = [];
+    scale.subscribe(reading => weights.push(reading.weight));
+    return weights;
+  };
+
+  it('bleibt bis zum Ende der Preinfusion bei 0 g', async () => {
+    const scale = createSimulatedScale({ preinfusionMs: 2000 });
+    const weights = record(scale);
+    await scale.tare();
+    vi.advanceTimersByTime(2000);
+    expect(weights).toHaveLength(20);
+    expect(weights.every(w => w === 0)).toBe(true);
+    scale.disconnect();
+  });
+
+  it('steigt danach auf den eingestellten Fluss', async () => {
+    const scale = createSimulatedScale({ preinfusionMs: 0, flow: 2 });
+    const weights = record(scale);
+    await scale.tare();
+    vi.advanceTimersByTime(3000);
+    const rampEnd = weights[weights.length - 1];
+    vi.advanceTimersByTime(1000);
+    expect(weights[weights.length - 1] - rampEnd).toBeCloseTo(2, 0);
+    scale.disconnect();
+  });
+
+  it('läuft nach pumpStopped aus und hört nach disconnect auf', async () => {
+    const scale = createSimulatedScale({ preinfusionMs: 0 });
+    const weights = record(scale);
+    await scale.tare();
+    vi.advanceTimersByTime(5000);
+    scale.pumpStopped!();
+    vi.advanceTimersByTime(2100);
+    const settled = weights[weights.length - 1];
+    vi.advanceTimersByTime(1000);
+    expect(weights[weights.length - 1]).toBe(settled);
+
+    scale.disconnect();
+    const count = weights.length;
+    vi.advanceTimersByTime(1000);
+    expect(weights).toHaveLength(count);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheSearch, getCachedSearch, normalizeQuery } from '../services/searchCacheService.ts';
+import { installLocalStorage } from './localStorage.ts';
+
+const result = { found: true, dose: 18, yield: 36, time: 28, tempSetting: 'II', sources: [] };
+
+describe('searchCacheService', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = installLocalStorage();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('normalisiert Schreibweise, Akzente und Satzzeichen', () => {
+    expect(normalizeQuery('  Äthiopien  Yirgacheffe! ')).toBe('athiopien yirgacheffe');
+  });
+
+  it('trifft dieselbe Bohne in anderer Schreibweise auf demselben Setup', () => {
+    cacheSearch('Äthiopien Yirgacheffe', result, 'marax-vs3');
+    expect(getCachedSearch('athiopien yirgacheffe', 'marax-vs3')?.result).toEqual(result);
+  });
+
+  it('liefert keine Temperaturstufe einer anderen Maschine', () => {
+    cacheSearch('Yirgacheffe', result, 'marax-vs3');
+    expect(getCachedSearch('Yirgacheffe', 'hx-mignon')).toBeNull();
+  });
+
+  it('cacht keine Fehlschläge ohne Quellen', () => {
+    cacheSearch('Unbekannt', { found: false, sources: [] }, 'marax-vs3');
+    expect(getCachedSearch('Unbekannt', 'marax-vs3')).toBeNull();
+  });
+
+  it('verwirft bei vollem localStorage die ältesten Einträge', () => {
+    vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(2000).mockReturnValueOnce(3000);
+    cacheSearch('Yirgacheffe', result, 'marax-vs3');
+    cacheSearch('Limu', result, 'marax-vs3');
+    cacheSearch('Sidamo', result, 'marax-vs3');
+    const setItem = storage.setItem;
+    // Platz für höchstens zwei Einträge
+    storage.setItem = (key, value) => {
+      if (Object.keys(JSON.parse(value)).length > 2) {
+        throw new DOMException('voll', 'QuotaExceededError');
+      }
+      setItem(key, value);
+    };
+    expect(() => cacheSearch('Guji', result, 'marax-vs3')).not.toThrow();
+    expect(getCachedSearch('Guji', 'marax-vs3')).not.toBeNull();
+    expect(getCachedSearch('Sidamo', 'marax-vs3')).not.toBeNull();
+    expect(getCachedSearch('Limu', 'marax-vs3')).toBeNull();
+    expect(getCachedSearch('Yirgacheffe', 'marax-vs3')).toBeNull();
+  });
+
+  it('lässt den Cache unverändert, wenn gar nichts mehr passt', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem = () => { throw new DOMException('voll', 'QuotaExceededError'); };
+    expect(() => cacheSearch('Guji', result, 'marax-vs3')).not.toThrow();
+    expect(getCachedSearch('Guji', 'marax-vs3')).toBeNull();
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { extractJsonObject, formatSearchValue, parseNumberOrRange, parseSearchResponse } from '../services/searchResponseService.ts';
+import { BUILT_IN_PROFILES } from '../services/equipmentService.ts';
+import { readFixture } from './fixtures.ts';
+
+const [maraX, dualBoiler] = BUILT_IN_PROFILES.map(p => p.machine);
+const parse = (name: string, machine = maraX) => parseSearchResponse(readFixture(`search/${name}`), machine);
+
+describe('parseSearchResponse – Korpus echter Modellantworten', () => {
+  it('liest JSON aus Markdown-Codeblöcken trotz Klammern in den Quellen', () => {
+    expect(parse('fenced-json.txt')).toEqual({
+      found: true,
+      dose: 18,
+      yield: 40,
+      time: 28,
+      temperature: '93°C',
+      tempSetting: 'I',
+      description: 'Die Rösterei empfiehlt 1:2,2 bei 93 °C.',
+    });
+  });
+
+  it('findet JSON mitten im Fließtext und zerlegt Spannen', () => {
+    const result = parse('prose-around.txt');
+    expect(result).toMatchObject({
+      found: true,
+      dose: 18.5,
+      yield: 38,
+      time: 28,
+      tempSetting: 'II',
+      description: 'Schokoladig, mit {Nuss}-Noten',
+      ranges: { yield: { min: 36, max: 40 }, time: { min: 25, max: 30 } },
+    });
+    expect(result.dropped).toBeUndefined();
+    expect(formatSearchValue(result, 'yield', 36)).toBe('36–40');
+  });
+
+  it('rechnet Verhältnisse über die Dosis um und rundet die Zeit', () => {
+    expect(parse('ratio-yield.txt')).toMatchObject({ found: true, dose: 20, yield: 40, time: 28, tempSetting: 'II' });
+  });
+
+  it('verwirft unplausible Werte mit Begründung', () => {
+    const result = parse('out-of-range.txt');
+    expect(result).toMatchObject({ found: true, yield: 36 });
+    expect(result.dose).toBeUndefined();
+    expect(result.time).toBeUndefined();
+    expect(result.tempSetting).toBeUndefined();
+    expect(result.dropped).toEqual([
+      'Dosis "180" liegt außerhalb 5–30g',
+      'Zeit "300" liegt außerhalb 5–90s',
+      'Temperatureinstellung "III" passt nicht zu Lelit Mara X',
+    ]);
+  });
+
+  it('verwirft einen Ertrag unter der Dosis', () => {
+    const result = parse('yield-below-dose.txt');
+    expect(result.yield).toBeUndefined();
+    expect(result.dropped).toEqual(['Ertrag 9g ist kleiner als die Dosis 18g']);
+  });
+
+  it('meldet Text ohne JSON als nicht gefunden', () => {
+    expect(parse('no-json.txt')).toEqual({ found: false, dropped: ['Antwort enthielt kein lesbares JSON'] });
+  });
+
+  it('nimmt "found" ohne verwertbare Werte nicht ernst', () => {
+    const result = parse('found-without-values.txt');
+    expect(result.found).toBe(false);
+    expect(result.dropped).toContain('Zeit "schnell" ist keine Zahl');
+  });
+
+  it('übersetzt °C für stufenlose Maschinen und prüft den Bereich', () => {
+    expect(parseSearchResponse('{"found": true, "dose": 18, "tempSetting": "93,5 °C"}', dualBoiler).tempSetting).toBe('93.5');
+    expect(parseSearchResponse('{"found": true, "dose": 18, "tempSetting": "120"}', dualBoiler).tempSetting).toBeUndefined();
+  });
+});
+
+describe('Bausteine', () => {
+  it('extractJsonObject überspringt kaputte Kandidaten', () => {
+    expect(extractJsonObject('{kaputt} und dann {"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('parseNumberOrRange versteht Kommas, Einheiten und "bis"', () => {
+    expect(parseNumberOrRange('18,5 g')).toEqual({ value: 18.5 });
+    expect(parseNumberOrRange('25 s bis 30 s')).toEqual({ value: 27.5, range: { min: 25, max: 30 } });
+    expect(parseNumberOrRange('keine Angabe')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { parseImportFile } from '../services/shotImportService.ts';
+import { readFixture } from './fixtures.ts';
+
+describe('parseImportFile', () => {
+  it('liest Decent-Tcl-Dateien samt Kurve und Extensions', () => {
+    const { shots, dropped } = parseImportFile(readFixture('import/decent-v1.shot'));
+    expect(dropped).toBe(0);
+    const [shot] = shots;
+    expect(shot).toMatchObject({
+      id: 'decent-1700000000',
+      timestamp: 1700000000000,
+      importSource: 'decent',
+      beanName: 'Square Mile Red Brick',
+      roastDate: '2023-11-01',
+      dose: 18,
+      yield: 38.2,
+      time: 28.1,
+      temperature: 92.4,
+      grindSetting: '12',
+      notes: 'Schokoladig, lang',
+    });
+    expect(shot.flavorProfile.overall).toBe(4);
+    expect(shot.curve).toHaveLength(5);
+    expect(shot.curve![4]).toEqual({ t: 28.1, weight: 37.6, flow: 1.6, pressure: 8.7, temperature: 93 });
+    expect(shot.extensions?.decent).toMatchObject({ machine_name: 'DE1Pro', settings: { skin: 'Insight' } });
+  });
+
+  it('liest Decent-JSON v2', () => {
+    const [shot] = parseImportFile(readFixture('import/decent-v2.json')).shots;
+    expect(shot).toMatchObject({
+      id: 'decent-1700000500',
+      beanName: 'Coffee Collective Kieni',
+      roastDate: '2023-10-28',
+      dose: 18.5,
+      yield: 40.1,
+      time: 30.2,
+      grindSetting: '14',
+      notes: 'Etwas spitz',
+    });
+    expect(shot.curve![3]).toMatchObject({ t: 30.2, weight: 39.8, pressure: 8.5, flow: 1.7 });
+    expect(shot.extensions?.decent).toMatchObject({ app: { app_version: '1.43' }, totals: { water_dispensed: [0, 1, 5, 45] } });
+  });
+
+  it('rechnet Gaggiuino-Messwerte von Zehnteln um', () => {
+    const [shot] = parseImportFile(readFixture('import/gaggiuino.json')).shots;
+    expect(shot).toMatchObject({
+      id: 'gaggiuino-42',
+      importSource: 'gaggiuino',
+      dose: 18,
+      yield: 36.7,
+      time: 29.5,
+      temperature: 92,
+      notes: 'Profil: Londinium',
+    });
+    expect(shot.curve![2]).toEqual({ t: 20, weight: 18, flow: 1.4, pressure: 8.8, temperature: 92.3 });
+    expect(shot.extensions?.gaggiuino).toMatchObject({ datapoints: { pumpFlow: [0, 30, 18, 15] } });
+  });
+
+  it('übernimmt aus Beanconqueror nur Espresso mit Dosis', () => {
+    const { shots, dropped } = parseImportFile(readFixture('import/beanconqueror.json'));
+    // V60 und der Shot ohne Dosis werden verworfen
+    expect(dropped).toBe(2);
+    expect(shots).toHaveLength(1);
+    expect(shots[0]).toMatchObject({
+      id: 'bc-brew-1',
+      beanName: 'Ethiopia Guji',
+      roastDate: '2023-11-02',
+      dose: 18,
+      yield: 37.5,
+      time: 28,
+      temperature: 93,
+      tds: 9.8,
+      grindSetting: '2.4',
+    });
+    expect(shots[0].flavorProfile.overall).toBe(4);
+    expect(shots[0].extensions?.beanconqueror).toMatchObject({ flow_profile: 'brews/brew-1_flow_profile.json', bean: { roaster: 'Bonanza' } });
+  });
+
+  it('verwirft Shots ohne Dosis statt eine unendliche Ratio zu speichern', () => {
+    const json = JSON.parse(readFixture('import/gaggiuino.json'));
+    delete json.profile.recipe.coffeeIn;
+    expect(parseImportFile(JSON.stringify(json))).toEqual({ shots: [], dropped: 1, migratedFrom: null });
+  });
+
+  it('lehnt unbekannte Formate ab', () => {
+    expect(() => parseImportFile('hallo welt')).toThrow('Unbekanntes Dateiformat');
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { corruptBackupKey, parseShotPayload, readShots, SHOT_SCHEMA_VERSION, writeShots } from '../services/storageService.ts';
+import { DEFAULT_EQUIPMENT_ID } from '../services/equipmentService.ts';
+import { installLocalStorage } from './localStorage.ts';
+import { readFixture } from './fixtures.ts';
+
+const KEY = 'barista_shots_v3';
+
+describe('parseShotPayload', () => {
+  it('migriert v1-Shots aus der alten index.tsx', () => {
+    const { shots, dropped, migratedFrom } = parseShotPayload(JSON.parse(readFixture('shots-v1.json')));
+    expect(dropped).toBe(0);
+    expect(migratedFrom).toBe(1);
+    expect(shots[0]).toMatchObject({
+      roastDate: '',
+      temperature: 0,
+      lockedIn: false,
+      tempSetting: 'I',
+      equipmentId: DEFAULT_EQUIPMENT_ID,
+      grindSetting: '2.4',
+    });
+    expect(shots[0]).not.toHaveProperty('maraXTempSetting');
+  });
+
+  it('migriert v2-Envelopes und macht grindSetting zum String', () => {
+    const { shots, migratedFrom } = parseShotPayload(JSON.parse(readFixture('shots-v2.json')));
+    expect(migratedFrom).toBe(2);
+    expect(shots[0]).toMatchObject({ roastDate: '2023-11-01', temperature: 93, grindSetting: '3', tempSetting: 'II' });
+  });
+
+  it('migriert v3 samt tempSetting in der gespeicherten Empfehlung', () => {
+    const { shots, migratedFrom } = parseShotPayload(JSON.parse(readFixture('shots-v3.json')));
+    expect(migratedFrom).toBe(3);
+    expect(shots[0]).toMatchObject({ lockedIn: true, sessionId: '1700000200000', tempSetting: '0' });
+    expect(shots[0].advice?.nextShot).toEqual({ grindDelta: 0, targetDose: 18, targetYield: 40, targetTime: 30, tempSetting: '0' });
+  });
+
+  it('erkennt die Version unversionierter Arrays je Eintrag und verwirft kaputte', () => {
+    const { shots, dropped, migratedFrom } = parseShotPayload(JSON.parse(readFixture('shots-unversioned-v3.json')));
+    expect(shots.map(s => s.id)).toEqual(['a', 'b', 'c']);
+    expect(dropped).toBe(2);
+    expect(migratedFrom).toBe(1);
+    expect(shots.map(s => s.tempSetting)).toEqual(['0', 'I', 'II']);
+    expect(shots[2].flavorProfile).toMatchObject({ sourness: 5, bitterness: 1 });
+  });
+
+  it('lässt aktuelle Shots unverändert', () => {
+    const current = parseShotPayload(JSON.parse(readFixture('shots-v3.json'))).shots;
+    const reloaded = parseShotPayload({ schemaVersion: SHOT_SCHEMA_VERSION, shots: current });
+    expect(reloaded).toEqual({ shots: current, dropped: 0, migratedFrom: null });
+  });
+
+  it('verwirft Shots aus einer neueren Version statt sie zu verstümmeln', () => {
+    const { shots, dropped } = parseShotPayload({ schemaVersion: SHOT_SCHEMA_VERSION + 1, shots: [{ id: 'x' }] });
+    expect(shots).toEqual([]);
+    expect(dropped).toBe(1);
+  });
+});
+
+describe('readShots', () => {
+  let storage: Storage;
+  beforeEach(() => {
+    storage = installLocalStorage();
+  });
+
+  it('sichert das Rohjournal, wenn einzelne Einträge verworfen werden', () => {
+    const raw = readFixture('shots-unversioned-v3.json');
+    storage.setItem(KEY, raw);
+    const { shots } = readShots(KEY);
+    writeShots(KEY, shots);
+    expect(storage.getItem(corruptBackupKey(KEY))).toBe(raw);
+  });
+
+  it('legt ohne Verluste keine Sicherung an', () => {
+    storage.setItem(KEY, readFixture('shots-v2.json'));
+    expect(readShots(KEY).dropped).toBe(0);
+    expect(storage.getItem(corruptBackupKey(KEY))).toBeNull();
+  });
+
+  it('sichert unlesbares JSON', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      storage.setItem(KEY, '[{"id": "a",');
+      expect(readShots(KEY)).toEqual({ shots: [], dropped: 1, migratedFrom: null });
+      expect(storage.getItem(corruptBackupKey(KEY))).toBe('[{"id": "a",');
+      expect(error).toHaveBeenCalledWith("Journal nicht lesbar:", expect.any(SyntaxError));
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
@@ -4,13 +4,25 @@ export interface EspressoShot {
   timestamp: number;
   beanName: string;
   roastDate: string;
+  bagId?: string; // Verweis auf BeanBag.id
+  sessionId?: string; // Verweis auf die Dial-In Session
+  lockedIn?: boolean; // Finales Rezept der Session
+  recipeId?: string; // Verweis auf das Rezept, nach dem gezogen wurde
+  advice?: DialInAdvice; // Coach-Analyse zu genau diesem Shot
   dose: number; // Gramm
   yield: number; // Gramm
-  time: number; // Sekunden
+  time: number; // Sekunden Extraktion (ab erstem Tropfen)
+  timing?: ShotTiming; // Vollständige Zeitmessung aus dem ShotTimer
+  tds?: number; // Refraktometer-Messung in %, optional
   temperature: number; // Celsius (informativ)
-  maraXTempSetting: '0' | 'I' | 'II'; // Spezifisch für Lelit Mara X
+  equipmentId?: string; // Verweis auf EquipmentProfile.id
+  tempSetting: string; // PID-Stufe, °C oder Flush-Variante – abhängig vom Maschinenprofil
   grindSetting: string;
   notes: string;
+  curve?: ShotCurvePoint[]; // Messreihe von Waage oder Maschine, falls vorhanden
+  importSource?: ImportSource; // Herkunft bei Shots aus Fremd-Apps
+  extensions?: Record<string, unknown>; // Nicht zugeordnete Felder aus Fremdformaten, unverändert
+  edits?: ShotEdit[]; // Änderungsprotokoll nachträglicher Korrekturen, ältester zuerst
   flavorProfile: {
     sourness: number; // 1-5
     bitterness: number; // 1-5
@@ -20,20 +32,158 @@ export interface EspressoShot {
   };
 }
 
+export interface ShotFieldChange {
+  field: string; // Pfad, z.B. 'dose' oder 'flavorProfile.body'
+  from: string;
+  to: string;
+}
+
+export interface ShotEdit {
+  timestamp: number;
+  changes: ShotFieldChange[];
+}
+
+export interface ShotTiming {
+  total: number; // Sekunden Kontaktzeit, Pumpe Start bis Stop
+  preinfusion: number; // Sekunden bis zum ersten Tropfen
+  extraction: number; // Sekunden ab erstem Tropfen
+}
+
+// Ein Messpunkt, t in Sekunden ab Shot-Start
+export interface ShotCurvePoint {
+  t: number;
+  weight?: number; // Gramm in der Tasse
+  flow?: number; // ml/s bzw. g/s
+  pressure?: number; // bar
+  temperature?: number; // °C
+}
+
+export type ImportSource = 'beanconqueror' | 'decent' | 'gaggiuino';
+
+export type TempControlType = 'pid-steps' | 'continuous' | 'hx';
+
+export interface MachineProfile {
+  name: string;
+  tempControl: TempControlType;
+  tempSteps?: string[]; // Stufen bei 'pid-steps', Flush-Varianten bei 'hx'
+  tempRange?: { min: number; max: number; step: number }; // °C bei 'continuous'
+  basketSize: number; // Siebgröße in Gramm
+}
+
+export interface GrinderProfile {
+  name: string;
+  scaleMin: number;
+  scaleMax: number;
+  scaleStep: number; // kleinste sinnvolle Verstellung
+  secondsPerStep: number; // ca. Änderung der Durchlaufzeit pro Schritt
+}
+
+export interface EquipmentProfile {
+  id: string;
+  name: string;
+  machine: MachineProfile;
+  grinder: GrinderProfile;
+  builtIn?: boolean;
+}
+
+export interface BaristaProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  equipmentId: string; // Standard-Equipment dieses Baristas
+  apiKey?: string; // Eigener Gemini API Key, sonst der globale aus der Build-Umgebung
+}
+
+export type RoastLevel = 'light' | 'medium-light' | 'medium' | 'medium-dark' | 'dark';
+
+export interface BeanBag {
+  id: string;
+  createdAt: number;
+  beanName: string;
+  roaster: string;
+  origin: string;
+  process: string; // z.B. washed, natural, honey
+  roastLevel: RoastLevel;
+  roastDate: string; // ISO-Datum (YYYY-MM-DD)
+  bagWeight: number; // Gramm
+  remainingWeight: number; // Gramm
+}
+
+export type RecipeSource = 'manual' | 'search' | 'shot';
+
+export interface Recipe {
+  id: string;
+  createdAt: number;
+  name: string;
+  beanName: string;
+  equipmentId?: string; // Setup, für das Temperatur und Mahlgrad gelten
+  dose: number; // Gramm
+  yield: number; // Gramm
+  timeMin: number; // Sekunden ab erstem Tropfen
+  timeMax: number;
+  tempSetting: string;
+  grindSetting: string;
+  preinfusion?: number; // Sekunden bis zum ersten Tropfen
+  targetFlavor?: EspressoShot['flavorProfile']; // Angestrebter Geschmack, 1-5
+  notes: string;
+  source: RecipeSource;
+}
+
+export interface DialInSession {
+  id: string;
+  beanName: string;
+  bagId?: string;
+  shots: EspressoShot[]; // chronologisch, ältester zuerst
+  lockedShot?: EspressoShot;
+}
+
+export interface GrindChange {
+  direction: 'finer' | 'coarser' | 'unchanged' | 'unknown';
+  amount: number | null; // Skalenschritte der Mühle, absolut
+}
+
+export interface DialInAdjustment {
+  grindDelta: number; // Skalenschritte, negativ = feiner
+  targetDose: number; // Gramm
+  targetYield: number; // Gramm
+  targetTime: number; // Sekunden
+  tempSetting: string;
+}
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  baseUrl: string; // Nur für OpenAI-kompatible Endpunkte, z.B. http://localhost:11434/v1
+  apiKey?: string; // Key des OpenAI-kompatiblen Endpunkts; Gemini nutzt den Key des Baristas
+}
+
 export interface DialInAdvice {
   diagnosis: string;
   recommendation: string;
   adjustment: string;
   explanation: string;
+  trajectory?: string; // Einordnung des bisherigen Session-Verlaufs
+  lastGrindChange?: GrindChange; // Mahlgradbewegung vom vorherigen zum analysierten Shot
+  nextShot?: DialInAdjustment; // Maschinenlesbares Rezept für den nächsten Shot
+  source?: AiProviderKind | 'offline'; // Herkunft der Analyse
+}
+
+export interface NumericRange {
+  min: number;
+  max: number;
 }
 
 export interface CoffeeSearchRecommendation {
   found: boolean;
-  dose?: number;
+  dose?: number; // Mittelwert, falls die Quelle eine Spanne nennt
   yield?: number;
   time?: number;
+  ranges?: { dose?: NumericRange; yield?: NumericRange; time?: NumericRange }; // Nur bei Spannen wie "36-40g"
   temperature?: string;
-  maraXSetting?: '0' | 'I' | 'II';
+  tempSetting?: string;
   description?: string;
   sources: { title: string; uri: string }[];
+  dropped?: string[]; // Verworfene Felder der Modellantwort, lesbar für den Nutzer
 }